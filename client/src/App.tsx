@@ -1,15 +1,29 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, Redirect } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
+import InvalidBoard from "@/pages/invalid-board";
 import WhiteboardPage from "@/pages/whiteboard";
+import { boardPath, createBoardId } from "@/lib/boards";
+import { BOARD_ID_PATTERN } from "@shared/signaling";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={WhiteboardPage} />
+      <Route path="/">
+        <Redirect to={boardPath(createBoardId())} replace />
+      </Route>
+      <Route path="/b/:boardId">
+        {(params) =>
+          BOARD_ID_PATTERN.test(params.boardId) ? (
+            <WhiteboardPage key={params.boardId} boardId={params.boardId} />
+          ) : (
+            <InvalidBoard />
+          )
+        }
+      </Route>
       <Route component={NotFound} />
     </Switch>
   );
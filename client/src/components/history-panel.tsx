@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { History, Loader2, X } from "lucide-react";
+import { motion } from "framer-motion";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { BoardVersion, BoardVersionSummary } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+
+export function HistoryPanel({
+  boardId,
+  author,
+  previewId,
+  onPreview,
+  onClose,
+  flush,
+}: {
+  boardId: string;
+  author: string;
+  previewId: string | null;
+  onPreview: (version: BoardVersion) => void;
+  onClose: () => void;
+  // Saves pending edits so a named version captures what is on screen.
+  flush: () => Promise<boolean>;
+}) {
+  const [name, setName] = useState("");
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const versionsKey = ["/api/boards", boardId, "versions"];
+
+  const { data: versions, isLoading } = useQuery<BoardVersionSummary[]>({
+    queryKey: versionsKey,
+    // Other peers' saves add versions too; refresh whenever the panel opens.
+    staleTime: 0,
+  });
+
+  const saveVersion = useMutation({
+    mutationFn: async (versionName: string) => {
+      if (!(await flush())) throw new Error("Board has unsaved changes");
+      const res = await apiRequest("POST", `/api/boards/${encodeURIComponent(boardId)}/versions`, {
+        name: versionName,
+        author,
+      });
+      return (await res.json()) as BoardVersionSummary;
+    },
+    onSuccess: () => {
+      setName("");
+      queryClient.invalidateQueries({ queryKey: versionsKey });
+    },
+    onError: () => {
+      toast({
+        title: "Couldn't save version",
+        description: "The board couldn't be saved. Try again once you're back online.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openVersion = async (id: string) => {
+    setLoadingId(id);
+    try {
+      const version = await queryClient.fetchQuery<BoardVersion>({
+        queryKey: [...versionsKey, id],
+      });
+      onPreview(version);
+    } catch (e) {
+      console.error("[History] Failed to load version:", e);
+      toast({ title: "Couldn't load version", variant: "destructive" });
+    } finally {
+      setLoadingId(null);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: 10 }}
+      animate={{ opacity: 1, x: 0 }}
+      data-testid="panel-history"
+      className="pointer-events-auto flex max-h-[min(560px,calc(100vh-180px))] w-72 flex-col rounded-2xl border border-slate-200/70 bg-white/85 shadow-md backdrop-blur cb-noise"
+    >
+      <div className="flex items-center justify-between px-3 pb-2 pt-3">
+        <div className="flex items-center gap-2">
+          <History className="size-4 text-slate-600" />
+          <div className="text-sm font-semibold text-slate-900">History</div>
+        </div>
+        <button
+          type="button"
+          data-testid="button-close-history"
+          aria-label="Close history"
+          onClick={onClose}
+          className="grid size-7 place-items-center rounded-lg text-slate-500 transition-colors hover:bg-slate-100 hover:text-slate-800"
+        >
+          <X className="size-4" />
+        </button>
+      </div>
+
+      <form
+        className="flex items-center gap-2 px-3 pb-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          const trimmed = name.trim();
+          if (trimmed) saveVersion.mutate(trimmed);
+        }}
+      >
+        <Input
+          data-testid="input-version-name"
+          value={name}
+          maxLength={120}
+          placeholder="Name this version"
+          onChange={(e) => setName(e.target.value)}
+          className="h-8 rounded-lg bg-white/70 text-xs"
+        />
+        <Button
+          type="submit"
+          data-testid="button-save-version"
+          disabled={!name.trim() || saveVersion.isPending}
+          className="h-8 rounded-lg bg-slate-900 px-3 text-xs text-white hover:bg-slate-800"
+        >
+          Save
+        </Button>
+      </form>
+
+      <div className="h-px bg-slate-200/70" />
+
+      <ScrollArea className="min-h-0 flex-1">
+        <div className="space-y-0.5 p-1.5">
+          {isLoading && <div className="px-2 py-3 text-xs text-slate-500">Loading…</div>}
+          {versions?.length === 0 && (
+            <div className="px-2 py-3 text-xs text-slate-500">
+              No versions yet. The board is snapshotted automatically as it is saved.
+            </div>
+          )}
+          {versions?.map((v) => (
+            <button
+              key={v.id}
+              type="button"
+              data-testid={`button-version-${v.id}`}
+              onClick={() => openVersion(v.id)}
+              className={cn(
+                "flex w-full items-center justify-between gap-2 rounded-lg px-2 py-1.5 text-left transition-colors",
+                v.id === previewId ? "bg-slate-900 text-white" : "hover:bg-slate-100/80",
+              )}
+            >
+              <div className="min-w-0">
+                <div
+                  className={cn(
+                    "truncate text-xs font-medium",
+                    v.id === previewId ? "text-white" : v.name ? "text-slate-800" : "text-slate-500",
+                  )}
+                >
+                  {v.name ?? "Autosave"}
+                </div>
+                <div
+                  className={cn(
+                    "truncate text-[11px]",
+                    v.id === previewId ? "text-white/70" : "text-slate-500",
+                  )}
+                >
+                  {format(new Date(v.createdAt), "MMM d, HH:mm")} · {v.author}
+                </div>
+              </div>
+              {loadingId === v.id && <Loader2 className="size-3.5 shrink-0 animate-spin" />}
+            </button>
+          ))}
+        </div>
+      </ScrollArea>
+    </motion.div>
+  );
+}
@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Board, BoardPatch } from "@shared/schema";
+import type { BoardItem } from "../pages/whiteboard";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const AUTOSAVE_DELAY_MS = 3000;
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 60000;
+
+export type SaveStatus = "saved" | "saving" | "offline";
+
+// Items are immutable and the board document reuses unchanged ones, so a
+// reference check is enough to find what changed since the last save.
+function diffBoard(saved: BoardItem[], current: BoardItem[]): BoardPatch | null {
+  const savedById = new Map(saved.map((it) => [it.data.id, it]));
+  const currentIds = new Set(current.map((it) => it.data.id));
+  const upsert = current.filter((it) => savedById.get(it.data.id) !== it);
+  const remove = saved.filter((it) => !currentIds.has(it.data.id)).map((it) => it.data.id);
+  const orderChanged =
+    saved.length !== current.length ||
+    current.some((it, i) => saved[i].data.id !== it.data.id);
+  if (upsert.length === 0 && remove.length === 0 && !orderChanged) return null;
+  return {
+    upsert,
+    remove,
+    ...(orderChanged ? { order: current.map((it) => it.data.id) } : {}),
+  };
+}
+
+// `author` is credited on the automatic versions the server takes of saves.
+export function useAutosave(boardId: string, items: BoardItem[], author: string) {
+  const [status, setStatus] = useState<SaveStatus>("saved");
+  const authorRef = useRef(author);
+  authorRef.current = author;
+  const savedRef = useRef<BoardItem[]>(items);
+  const latestRef = useRef<BoardItem[]>(items);
+  const timerRef = useRef<number | null>(null);
+  const inFlightRef = useRef<Promise<boolean> | null>(null);
+  const retryDelayRef = useRef(RETRY_BASE_MS);
+  const retryingRef = useRef(false);
+  latestRef.current = items;
+
+  const schedule = useCallback((delay: number, run: () => void) => {
+    if (timerRef.current !== null) window.clearTimeout(timerRef.current);
+    timerRef.current = window.setTimeout(() => {
+      timerRef.current = null;
+      run();
+    }, delay);
+  }, []);
+
+  const save = useCallback(async (): Promise<boolean> => {
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    // One request at a time; whatever changed meanwhile goes in the next one.
+    if (inFlightRef.current) {
+      await inFlightRef.current;
+    }
+
+    const current = latestRef.current;
+    const patch = diffBoard(savedRef.current, current);
+    if (!patch) {
+      setStatus("saved");
+      return true;
+    }
+
+    setStatus("saving");
+    const request = (async () => {
+      try {
+        const res = await apiRequest("PATCH", `/api/boards/${encodeURIComponent(boardId)}`, {
+          ...patch,
+          author: authorRef.current,
+        });
+        const saved = (await res.json()) as Omit<Board, "items">;
+        savedRef.current = current;
+        queryClient.setQueryData<Board>(["/api/boards", boardId], { ...saved, items: current });
+        retryDelayRef.current = RETRY_BASE_MS;
+        retryingRef.current = false;
+        if (latestRef.current === current) {
+          setStatus("saved");
+        } else {
+          schedule(AUTOSAVE_DELAY_MS, () => void save());
+        }
+        return true;
+      } catch (e) {
+        console.error("[Autosave] Save failed:", e);
+        setStatus("offline");
+        retryingRef.current = true;
+        const delay = retryDelayRef.current;
+        retryDelayRef.current = Math.min(delay * 2, RETRY_MAX_MS);
+        schedule(delay, () => void save());
+        return false;
+      } finally {
+        inFlightRef.current = null;
+      }
+    })();
+    inFlightRef.current = request;
+    return request;
+  }, [boardId, schedule]);
+
+  // Debounce: save a few seconds after the last change. While a retry is
+  // pending the backoff timer keeps running instead.
+  useEffect(() => {
+    if (items === savedRef.current) return;
+    if (retryingRef.current) return;
+    setStatus("saving");
+    schedule(AUTOSAVE_DELAY_MS, () => void save());
+  }, [items, save, schedule]);
+
+  // Coming back online is the best moment to retry.
+  useEffect(() => {
+    const onOnline = () => {
+      if (retryingRef.current) void save();
+    };
+    window.addEventListener("online", onOnline);
+    return () => window.removeEventListener("online", onOnline);
+  }, [save]);
+
+  useEffect(() => {
+    return () => {
+      if (timerRef.current !== null) window.clearTimeout(timerRef.current);
+    };
+  }, []);
+
+  // Marks a board loaded from the server as already saved.
+  const markSaved = useCallback((saved: BoardItem[]) => {
+    savedRef.current = saved;
+    if (latestRef.current === saved) setStatus("saved");
+  }, []);
+
+  // Counts a change merged from a peer, `before` to `after`, as saved: the
+  // peer that made it saves it, so each edit is saved once and credited to
+  // whoever made it. Only this peer's own edits are left to save.
+  const markMerged = useCallback((before: BoardItem[], after: BoardItem[]) => {
+    const saved = savedRef.current;
+    if (saved === before) {
+      savedRef.current = after;
+      return;
+    }
+    const beforeById = new Map(before.map((it) => [it.data.id, it]));
+    const savedById = new Map(saved.map((it) => [it.data.id, it]));
+    // The merged order counts as saved unless a local reorder is still
+    // waiting to be saved.
+    const savedIds = saved.map((it) => it.data.id);
+    const beforeOrder = before.map((it) => it.data.id).filter((id) => savedById.has(id));
+    const reordered = savedIds
+      .filter((id) => beforeById.has(id))
+      .some((id, i) => beforeOrder[i] !== id);
+
+    for (const it of after) {
+      if (beforeById.get(it.data.id) !== it) savedById.set(it.data.id, it);
+    }
+    const afterIds = new Set(after.map((it) => it.data.id));
+    beforeById.forEach((_, id) => {
+      if (!afterIds.has(id)) savedById.delete(id);
+    });
+    const order = reordered
+      ? [...savedIds, ...after.map((it) => it.data.id)]
+      : [...after.map((it) => it.data.id), ...savedIds];
+    const next: BoardItem[] = [];
+    for (const id of order) {
+      const it = savedById.get(id);
+      if (!it) continue;
+      next.push(it);
+      savedById.delete(id);
+    }
+    savedRef.current = next;
+  }, []);
+
+  return { status, save, markSaved, markMerged };
+}
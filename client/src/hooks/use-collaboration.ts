@@ -1,7 +1,14 @@
 import { useEffect, useRef, useState, useCallback } from "react";
-import type { BoardItem } from "../pages/whiteboard";
-
-type PeerId = string;
+import type { BoardDelta, StateVector } from "@/lib/board-doc";
+import {
+  SIGNALING_PATH,
+  type AnswerMessage,
+  type IceCandidateMessage,
+  type OfferMessage,
+  type PeerId,
+  type PresenceMessage,
+  type SignalMessage,
+} from "@shared/signaling";
 
 interface PeerInfo {
   id: PeerId;
@@ -20,57 +27,26 @@ interface CursorUpdate {
   active: boolean;
 }
 
-interface DrawOperation {
-  type: "draw";
-  item: BoardItem;
-}
-
-interface ClearBoard {
-  type: "clear";
+// Registers written by a local edit; merging them is idempotent, so the same
+// delta can safely arrive twice or out of order.
+interface DeltaMessage {
+  type: "delta";
+  delta: BoardDelta;
 }
 
+// Sent by both sides when a channel opens. The receiver answers with every
+// register the sender's vector doesn't cover.
 interface SyncRequest {
   type: "sync-request";
-  itemCount: number;
+  vector: StateVector;
 }
 
 interface SyncResponse {
   type: "sync-response";
-  items: BoardItem[];
-}
-
-interface PresenceMessage {
-  type: "presence";
-  id: PeerId;
-  name: string;
-  color: string;
-}
-
-interface OfferMessage {
-  type: "offer";
-  from: PeerId;
-  to: PeerId;
-  offer: RTCSessionDescriptionInit;
-  name: string;
-  color: string;
-}
-
-interface AnswerMessage {
-  type: "answer";
-  from: PeerId;
-  to: PeerId;
-  answer: RTCSessionDescriptionInit;
+  delta: BoardDelta;
 }
 
-interface IceCandidateMessage {
-  type: "ice";
-  from: PeerId;
-  to: PeerId;
-  candidate: RTCIceCandidateInit;
-}
-
-type PeerMessage = CursorUpdate | DrawOperation | ClearBoard | SyncRequest | SyncResponse;
-type SignalMessage = PresenceMessage | OfferMessage | AnswerMessage | IceCandidateMessage;
+type PeerMessage = CursorUpdate | DeltaMessage | SyncRequest | SyncResponse;
 
 const PEER_NAMES = [
   "Avery", "Sam", "Jordan", "Taylor", "Morgan", "Casey", "Riley", "Quinn",
@@ -104,12 +80,13 @@ export interface RemotePeer {
   lastSeen: number;
 }
 
-export function useCollaboration(
-  onRemoteDraw: (item: BoardItem) => void,
-  onRemoteClear: () => void,
-  onSyncRequest: (itemCount: number) => BoardItem[],
-  onSyncReceive: (items: BoardItem[]) => void
-) {
+export interface CollaborationHandlers {
+  onRemoteDelta: (delta: BoardDelta) => void;
+  getStateVector: () => StateVector;
+  getDeltaSince: (vector: StateVector) => BoardDelta | null;
+}
+
+export function useCollaboration(boardId: string, handlers: CollaborationHandlers) {
   const [myId] = useState<PeerId>(() => generatePeerId());
   const [myName] = useState(() => getRandomName());
   const [myColor] = useState(() => getRandomColor());
@@ -118,37 +95,36 @@ export function useCollaboration(
   const [isConnected, setIsConnected] = useState(false);
   
   const bcRef = useRef<BroadcastChannel | null>(null);
+  const wsRef = useRef<WebSocket | null>(null);
   const peersRef = useRef<Map<PeerId, PeerInfo>>(peers);
   const syncRequestedRef = useRef<Set<PeerId>>(new Set());
+  // Data channel callbacks are bound once per connection; read the handlers
+  // through a ref so they always see the page's latest callbacks.
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
   
   useEffect(() => {
     peersRef.current = peers;
   }, [peers]);
 
-  // Initialize BroadcastChannel for same-origin peer discovery
+  // Signaling goes through the server's WebSocket relay when it is reachable
+  // and falls back to BroadcastChannel (same-browser peers only) when it isn't.
+  const sendSignal = useCallback((msg: SignalMessage) => {
+    const ws = wsRef.current;
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(msg));
+    } else if (bcRef.current) {
+      bcRef.current.postMessage(msg);
+    }
+  }, []);
+
   useEffect(() => {
-    if (typeof BroadcastChannel === "undefined") return;
-    
-    const bc = new BroadcastChannel("collab-board");
-    bcRef.current = bc;
-    
-    // Announce presence when joining
-    const announcePresence = () => {
-      const msg: PresenceMessage = {
-        type: "presence",
-        id: myId,
-        name: myName,
-        color: myColor
-      };
-      bc.postMessage(msg);
-    };
-    
-    // Announce immediately and periodically
-    announcePresence();
-    const interval = setInterval(announcePresence, 5000);
-    
-    bc.onmessage = async (event) => {
-      const msg = event.data as SignalMessage;
+    let disposed = false;
+    let ws: WebSocket | null = null;
+    let reconnectTimer: number | null = null;
+    let reconnectDelay = 1000;
+
+    const handleSignal = async (msg: SignalMessage) => {
       if (!msg || (msg.type === "presence" && msg.id === myId)) return;
       
       if (msg.type === "presence") {
@@ -169,18 +145,82 @@ export function useCollaboration(
         await handleIceCandidate(msg);
       }
     };
+
+    // Announce presence when joining
+    const announcePresence = () => {
+      const msg: PresenceMessage = {
+        type: "presence",
+        id: myId,
+        name: myName,
+        color: myColor
+      };
+      sendSignal(msg);
+    };
+
+    // Same-browser fallback. Always listen, since a peer whose socket is down
+    // will only be able to reach us this way.
+    if (typeof BroadcastChannel !== "undefined") {
+      const bc = new BroadcastChannel(`collab-board:${boardId}`);
+      bcRef.current = bc;
+      bc.onmessage = (event) => {
+        void handleSignal(event.data as SignalMessage);
+      };
+    }
+
+    const connectSocket = () => {
+      if (disposed || typeof WebSocket === "undefined") return;
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      const room = encodeURIComponent(boardId);
+      ws = new WebSocket(`${protocol}//${window.location.host}${SIGNALING_PATH}?room=${room}`);
+      wsRef.current = ws;
+
+      ws.onopen = () => {
+        console.log("[Collab] Signaling server connected");
+        reconnectDelay = 1000;
+        setIsConnected(true);
+        announcePresence();
+      };
+
+      ws.onmessage = (event) => {
+        try {
+          void handleSignal(JSON.parse(event.data) as SignalMessage);
+        } catch (e) {
+          console.error("Failed to parse signal message:", e);
+        }
+      };
+
+      ws.onclose = () => {
+        if (wsRef.current === ws) wsRef.current = null;
+        if (disposed) return;
+        console.log(`[Collab] Signaling server unreachable, retrying in ${reconnectDelay}ms`);
+        setIsConnected(bcRef.current !== null);
+        reconnectTimer = window.setTimeout(connectSocket, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, 30000);
+      };
+    };
+
+    connectSocket();
     
-    setIsConnected(true);
+    // Announce immediately and periodically
+    announcePresence();
+    const interval = setInterval(announcePresence, 5000);
+    
+    if (bcRef.current) setIsConnected(true);
     
     return () => {
+      disposed = true;
       clearInterval(interval);
-      bc.close();
+      if (reconnectTimer !== null) window.clearTimeout(reconnectTimer);
+      ws?.close();
+      wsRef.current = null;
+      bcRef.current?.close();
+      bcRef.current = null;
       // Close all peer connections
       peersRef.current.forEach(peer => {
         peer.connection.close();
       });
     };
-  }, [myId, myName, myColor]);
+  }, [boardId, myId, myName, myColor, sendSignal]);
 
   const createPeerConnection = useCallback((peerId: PeerId, peerName: string, peerColor: string, isInitiator: boolean): PeerInfo => {
     const pc = new RTCPeerConnection({
@@ -212,14 +252,14 @@ export function useCollaboration(
     
     // Handle ICE candidates
     pc.onicecandidate = (event) => {
-      if (event.candidate && bcRef.current) {
+      if (event.candidate) {
         const msg: IceCandidateMessage = {
           type: "ice",
           from: myId,
           to: peerId,
           candidate: event.candidate.toJSON()
         };
-        bcRef.current.postMessage(msg);
+        sendSignal(msg);
       }
     };
     
@@ -239,7 +279,7 @@ export function useCollaboration(
     };
     
     return peer;
-  }, [myId]);
+  }, [myId, sendSignal]);
 
   const setupDataChannel = (peer: PeerInfo, dc: RTCDataChannel) => {
     peer.dataChannel = dc;
@@ -249,11 +289,9 @@ export function useCollaboration(
       console.log(`[Collab] Data channel opened with ${peer.name} (${peer.id}). I am initiator: ${peer.isInitiator}`);
       updateRemotePeer(peer.id, peer.name, peer.color, 0, 0, false);
       
-      // BOTH sides send sync-request when connection opens
-      // This ensures whoever has more items will send them
-      const ourItems = onSyncRequest(0);
-      console.log(`[Collab] Sending sync-request. I have ${ourItems.length} items.`);
-      const msg: SyncRequest = { type: "sync-request", itemCount: ourItems.length };
+      // BOTH sides send sync-request when connection opens, so each ends up
+      // with whatever registers only the other one had
+      const msg: SyncRequest = { type: "sync-request", vector: handlersRef.current.getStateVector() };
       dc.send(JSON.stringify(msg));
     };
     
@@ -276,30 +314,22 @@ export function useCollaboration(
     
     if (msg.type === "cursor") {
       updateRemotePeer(peer.id, peer.name, peer.color, msg.x, msg.y, msg.active);
-    } else if (msg.type === "draw") {
-      onRemoteDraw(msg.item);
-    } else if (msg.type === "clear") {
-      onRemoteClear();
+    } else if (msg.type === "delta") {
+      handlersRef.current.onRemoteDelta(msg.delta);
     } else if (msg.type === "sync-request") {
-      // Peer is requesting sync - send our items if we have MORE than them
-      console.log(`[Collab] Sync requested. Peer has ${msg.itemCount} items.`);
-      const ourItems = onSyncRequest(msg.itemCount);
-      console.log(`[Collab] I have ${ourItems.length} items.`);
-      
-      // Send our items if we have more than the peer
-      if (ourItems.length > msg.itemCount) {
-        const response: SyncResponse = { type: "sync-response", items: ourItems };
-        console.log(`[Collab] Sending sync response with ${ourItems.length} items.`);
-        if (peer.dataChannel?.readyState === "open") {
-          peer.dataChannel.send(JSON.stringify(response));
-        }
-      } else {
-        console.log(`[Collab] Not sending (peer has ${msg.itemCount}, I have ${ourItems.length})`);
+      const delta = handlersRef.current.getDeltaSince(msg.vector);
+      if (!delta) {
+        console.log(`[Collab] ${peer.name} is already up to date`);
+        return;
+      }
+      const response: SyncResponse = { type: "sync-response", delta };
+      console.log(`[Collab] Sending sync response with ${delta.entries.length} entries.`);
+      if (peer.dataChannel?.readyState === "open") {
+        peer.dataChannel.send(JSON.stringify(response));
       }
     } else if (msg.type === "sync-response") {
-      // Received sync data - apply it
-      console.log(`[Collab] Received sync response with ${msg.items.length} items.`);
-      onSyncReceive(msg.items);
+      console.log(`[Collab] Received sync response with ${msg.delta.entries.length} entries.`);
+      handlersRef.current.onRemoteDelta(msg.delta);
     }
   };
 
@@ -313,17 +343,15 @@ export function useCollaboration(
       const offer = await peer.connection.createOffer();
       await peer.connection.setLocalDescription(offer);
       
-      if (bcRef.current) {
-        const msg: OfferMessage = {
-          type: "offer",
-          from: myId,
-          to: peerId,
-          offer: offer,
-          name: myName,
-          color: myColor
-        };
-        bcRef.current.postMessage(msg);
-      }
+      const msg: OfferMessage = {
+        type: "offer",
+        from: myId,
+        to: peerId,
+        offer: offer,
+        name: myName,
+        color: myColor
+      };
+      sendSignal(msg);
     } catch (e) {
       console.error("Failed to create offer:", e);
     }
@@ -340,15 +368,13 @@ export function useCollaboration(
       const answer = await peer.connection.createAnswer();
       await peer.connection.setLocalDescription(answer);
       
-      if (bcRef.current) {
-        const answerMsg: AnswerMessage = {
-          type: "answer",
-          from: myId,
-          to: msg.from,
-          answer: answer
-        };
-        bcRef.current.postMessage(answerMsg);
-      }
+      const answerMsg: AnswerMessage = {
+        type: "answer",
+        from: myId,
+        to: msg.from,
+        answer: answer
+      };
+      sendSignal(answerMsg);
     } catch (e) {
       console.error("Failed to handle offer:", e);
     }
@@ -417,17 +443,8 @@ export function useCollaboration(
     });
   }, []);
 
-  const broadcastDraw = useCallback((item: BoardItem) => {
-    const msg: DrawOperation = { type: "draw", item };
-    peersRef.current.forEach(peer => {
-      if (peer.connected && peer.dataChannel?.readyState === "open") {
-        peer.dataChannel.send(JSON.stringify(msg));
-      }
-    });
-  }, []);
-
-  const broadcastClear = useCallback(() => {
-    const msg: ClearBoard = { type: "clear" };
+  const broadcastDelta = useCallback((delta: BoardDelta) => {
+    const msg: DeltaMessage = { type: "delta", delta };
     peersRef.current.forEach(peer => {
       if (peer.connected && peer.dataChannel?.readyState === "open") {
         peer.dataChannel.send(JSON.stringify(msg));
@@ -443,7 +460,6 @@ export function useCollaboration(
     isConnected,
     peerCount: peers.size,
     broadcastCursor,
-    broadcastDraw,
-    broadcastClear
+    broadcastDelta
   };
 }
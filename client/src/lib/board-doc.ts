@@ -0,0 +1,366 @@
+import type { BoardItem } from "@/pages/whiteboard";
+
+// Replicated board state: an ordered map of items where every item field, the
+// item's z-order position and its deleted flag are last-writer-wins registers.
+// Writes are stamped with a Lamport clock plus the writing replica's id, so
+// any two replicas that have seen the same registers agree on the same board
+// no matter the order the registers arrived in. Each replica also numbers its
+// own writes 1, 2, 3…; that sequence, not the clock, is what sync compares.
+
+export type Stamp = { clock: number; peer: string; seq: number };
+
+export type Register<T> = { value: T; stamp: Stamp };
+
+// Per replica, the sequence number up to which every one of its writes has
+// been received. Sent when peers connect so each side only ships the
+// registers the other is missing. A write that arrives ahead of a gap isn't
+// counted until the gap is filled.
+export type StateVector = Record<string, number>;
+
+export type EntryDelta = {
+  id: string;
+  // Present whenever the receiver may not know the item yet (creation, sync).
+  type?: BoardItem["type"];
+  position?: Register<string>;
+  deleted?: Register<boolean>;
+  fields?: Record<string, Register<unknown>>;
+};
+
+export type BoardDelta = {
+  entries: EntryDelta[];
+  // Set on sync responses: the sender's vector. Once the entries are merged
+  // the receiver holds everything it covers, including writes the sender no
+  // longer has because newer ones replaced them.
+  covers?: StateVector;
+};
+
+type Entry = {
+  id: string;
+  type: BoardItem["type"] | null;
+  position: Register<string> | null;
+  deleted: Register<boolean> | null;
+  fields: Map<string, Register<unknown>>;
+  // Materialized item, reused until one of the registers changes.
+  view: BoardItem | null;
+};
+
+// Writes received from one replica: all of them up to `upTo`, plus any later
+// ones that arrived ahead of a gap.
+type Received = { upTo: number; ahead: Set<number> };
+
+function newer(a: Stamp, b: Stamp) {
+  return a.clock > b.clock || (a.clock === b.clock && a.peer > b.peer);
+}
+
+function sameValue(a: unknown, b: unknown) {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+const DIGITS = "0123456789abcdefghijklmnopqrstuvwxyz";
+
+// Fractional index strictly between `a` and `b` (null = no upper bound).
+// Generated keys never end in "0", so there is always room below a key.
+function keyBetween(a: string, b: string | null): string {
+  if (b !== null) {
+    let n = 0;
+    while ((a[n] ?? "0") === b[n]) n++;
+    if (n > 0) return b.slice(0, n) + keyBetween(a.slice(n), b.slice(n));
+  }
+  const lo = a.length > 0 ? DIGITS.indexOf(a[0]) : 0;
+  const hi = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (hi - lo > 1) return DIGITS[Math.round((lo + hi) / 2)];
+  if (b !== null && b.length > 1) return b.slice(0, 1);
+  return DIGITS[lo] + keyBetween(a.slice(1), null);
+}
+
+// Indices of the longest run of strictly increasing keys, so a reorder only
+// rewrites the positions of items that actually moved.
+function longestIncreasing(keys: (string | null)[]): Set<number> {
+  const tails: number[] = [];
+  const prev = new Array<number>(keys.length).fill(-1);
+  keys.forEach((key, i) => {
+    if (key === null) return;
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if ((keys[tails[mid]] as string) < key) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo > 0) prev[i] = tails[lo - 1];
+    tails[lo] = i;
+  });
+  const kept = new Set<number>();
+  let i = tails.length > 0 ? tails[tails.length - 1] : -1;
+  while (i !== -1) {
+    kept.add(i);
+    i = prev[i];
+  }
+  return kept;
+}
+
+export class BoardDoc {
+  private entries = new Map<string, Entry>();
+  private clock = 0;
+  private seq = 0;
+  private received = new Map<string, Received>();
+  private visible: BoardItem[] | null = [];
+
+  constructor(private readonly peer: string) {}
+
+  items(): BoardItem[] {
+    if (this.visible) return this.visible;
+    const live = Array.from(this.entries.values()).filter(
+      (e) => e.type !== null && e.position !== null && !e.deleted?.value,
+    );
+    live.sort((a, b) => {
+      const pa = a.position!.value;
+      const pb = b.position!.value;
+      if (pa !== pb) return pa < pb ? -1 : 1;
+      return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+    });
+    this.visible = live.map((e) => this.materialize(e));
+    return this.visible;
+  }
+
+  // Records the difference between the current board and `next` as local
+  // writes. Returns the registers that changed, or null if nothing did.
+  commit(next: BoardItem[]): BoardDelta | null {
+    let stamp: Stamp | null = null;
+    const now = () => (stamp ??= this.tick());
+    const deltas = new Map<string, EntryDelta>();
+    const touch = (id: string) => {
+      let d = deltas.get(id);
+      if (!d) {
+        d = { id };
+        deltas.set(id, d);
+      }
+      return d;
+    };
+
+    const nextIds = new Set(next.map((it) => it.data.id));
+    for (const it of this.items()) {
+      if (nextIds.has(it.data.id)) continue;
+      const entry = this.entries.get(it.data.id)!;
+      entry.deleted = { value: true, stamp: now() };
+      touch(entry.id).deleted = entry.deleted;
+    }
+
+    for (const item of next) {
+      let entry = this.entries.get(item.data.id);
+      if (entry && entry.view === item && !entry.deleted?.value) continue;
+      if (!entry) {
+        entry = {
+          id: item.data.id,
+          type: item.type,
+          position: null,
+          deleted: null,
+          fields: new Map(),
+          view: null,
+        };
+        this.entries.set(entry.id, entry);
+        touch(entry.id).type = item.type;
+      }
+      if (entry.type === null) entry.type = item.type;
+      if (entry.deleted?.value) {
+        entry.deleted = { value: false, stamp: now() };
+        const d = touch(entry.id);
+        d.deleted = entry.deleted;
+        d.type = entry.type;
+      }
+
+      const data = item.data as Record<string, unknown>;
+      const keys = new Set([...Object.keys(data), ...Array.from(entry.fields.keys())]);
+      keys.delete("id");
+      for (const key of Array.from(keys)) {
+        // null marks an optional field that was unset
+        const value = data[key] ?? null;
+        const reg = entry.fields.get(key);
+        if (reg && sameValue(reg.value, value)) continue;
+        const written: Register<unknown> = { value, stamp: now() };
+        entry.fields.set(key, written);
+        const d = touch(entry.id);
+        d.fields = { ...d.fields, [key]: written };
+      }
+      entry.view = item;
+    }
+
+    const positions = next.map((it) => this.entries.get(it.data.id)!.position?.value ?? null);
+    const kept = longestIncreasing(positions);
+    // Nearest kept position above each index: the upper bound for new keys.
+    const upperBounds = new Array<string | null>(next.length);
+    let upper: string | null = null;
+    for (let i = next.length - 1; i >= 0; i--) {
+      upperBounds[i] = upper;
+      if (kept.has(i)) upper = positions[i];
+    }
+    let lower = "";
+    next.forEach((it, i) => {
+      if (kept.has(i)) {
+        lower = positions[i]!;
+        return;
+      }
+      const key = keyBetween(lower, upperBounds[i]);
+      const entry = this.entries.get(it.data.id)!;
+      entry.position = { value: key, stamp: now() };
+      touch(entry.id).position = entry.position;
+      lower = key;
+    });
+
+    this.visible = next.slice();
+    return deltas.size > 0 ? { entries: Array.from(deltas.values()) } : null;
+  }
+
+  // Fills in items from a saved snapshot. Seeded registers are written as the
+  // one write of a replica named after the snapshot's `version`, at clock 0:
+  // anything a live peer has written wins over them, a later snapshot wins
+  // over an earlier one, every peer that loads the same snapshot ends up with
+  // identical registers, and sync ships them to peers that loaded another.
+  seed(items: BoardItem[], version: string): boolean {
+    const stamp: Stamp = { clock: 0, peer: `snapshot:${version}`, seq: 1 };
+    const width = Math.max(1, Math.ceil(Math.log(items.length + 1) / Math.log(DIGITS.length)));
+    const entries = items.map((item, index): EntryDelta => {
+      const fields: Record<string, Register<unknown>> = {};
+      for (const [key, value] of Object.entries(item.data)) {
+        if (key !== "id") fields[key] = { value, stamp };
+      }
+      return {
+        id: item.data.id,
+        type: item.type,
+        position: { value: index.toString(36).padStart(width, "0") + "i", stamp },
+        deleted: { value: false, stamp },
+        fields,
+      };
+    });
+    return this.merge({ entries });
+  }
+
+  // Applies registers from another replica. Returns whether the visible board
+  // changed.
+  merge(delta: BoardDelta): boolean {
+    let changed = false;
+    for (const d of delta.entries) {
+      let entry = this.entries.get(d.id);
+      if (!entry) {
+        entry = {
+          id: d.id,
+          type: null,
+          position: null,
+          deleted: null,
+          fields: new Map(),
+          view: null,
+        };
+        this.entries.set(d.id, entry);
+      }
+      if (d.type && entry.type === null) {
+        entry.type = d.type;
+        changed = true;
+      }
+      if (d.position) {
+        this.observe(d.position.stamp);
+        if (!entry.position || newer(d.position.stamp, entry.position.stamp)) {
+          entry.position = d.position;
+          changed = true;
+        }
+      }
+      if (d.deleted) {
+        this.observe(d.deleted.stamp);
+        if (!entry.deleted || newer(d.deleted.stamp, entry.deleted.stamp)) {
+          entry.deleted = d.deleted;
+          changed = true;
+        }
+      }
+      for (const [key, reg] of Object.entries(d.fields ?? {})) {
+        this.observe(reg.stamp);
+        const current = entry.fields.get(key);
+        if (!current || newer(reg.stamp, current.stamp)) {
+          entry.fields.set(key, reg);
+          entry.view = null;
+          changed = true;
+        }
+      }
+    }
+    for (const [peer, upTo] of Object.entries(delta.covers ?? {})) this.receive(peer, upTo, true);
+    if (changed) this.visible = null;
+    return changed;
+  }
+
+  stateVector(): StateVector {
+    const vector: StateVector = {};
+    this.received.forEach((r, peer) => {
+      if (r.upTo > 0) vector[peer] = r.upTo;
+    });
+    return vector;
+  }
+
+  // Every register the holder of `vector` hasn't seen yet, or null when it
+  // is already up to date.
+  deltaSince(vector: StateVector): BoardDelta | null {
+    const unseen = (s: Stamp) => s.seq > (vector[s.peer] ?? 0);
+    const entries: EntryDelta[] = [];
+    this.entries.forEach((entry) => {
+      if (entry.type === null) return;
+      const d: EntryDelta = { id: entry.id, type: entry.type };
+      let any = false;
+      if (entry.position && unseen(entry.position.stamp)) {
+        d.position = entry.position;
+        any = true;
+      }
+      if (entry.deleted && unseen(entry.deleted.stamp)) {
+        d.deleted = entry.deleted;
+        any = true;
+      }
+      entry.fields.forEach((reg, key) => {
+        if (!unseen(reg.stamp)) return;
+        d.fields = { ...d.fields, [key]: reg };
+        any = true;
+      });
+      if (any) entries.push(d);
+    });
+    const covers = this.stateVector();
+    const behind = Object.entries(covers).some(([peer, upTo]) => upTo > (vector[peer] ?? 0));
+    return entries.length > 0 || behind ? { entries, covers } : null;
+  }
+
+  private tick(): Stamp {
+    this.clock += 1;
+    this.seq += 1;
+    this.receive(this.peer, this.seq);
+    return { clock: this.clock, peer: this.peer, seq: this.seq };
+  }
+
+  private observe(stamp: Stamp) {
+    if (stamp.clock > this.clock) this.clock = stamp.clock;
+    this.receive(stamp.peer, stamp.seq);
+  }
+
+  // Notes that `peer`'s write `seq` has been received, or with `through`, all
+  // of its writes up to `seq`.
+  private receive(peer: string, seq: number, through = false) {
+    if (seq <= 0) return;
+    const r = this.received.get(peer) ?? { upTo: 0, ahead: new Set<number>() };
+    this.received.set(peer, r);
+    if (seq <= r.upTo) return;
+    if (through) {
+      r.upTo = seq;
+      r.ahead.forEach((n) => {
+        if (n <= seq) r.ahead.delete(n);
+      });
+    } else {
+      r.ahead.add(seq);
+    }
+    while (r.ahead.delete(r.upTo + 1)) r.upTo += 1;
+  }
+
+  private materialize(entry: Entry): BoardItem {
+    if (entry.view) return entry.view;
+    const data: Record<string, unknown> = { id: entry.id };
+    entry.fields.forEach((reg, key) => {
+      if (reg.value !== null) data[key] = reg.value;
+    });
+    entry.view = { type: entry.type, data } as BoardItem;
+    return entry.view;
+  }
+}
@@ -0,0 +1,11 @@
+// Short, URL-safe ids for `/b/:boardId`. They only need to be hard to guess
+// among a handful of live boards, not globally unique forever.
+export function createBoardId(): string {
+  const bytes = new Uint8Array(8);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => (b % 36).toString(36)).join("") + Date.now().toString(36).slice(-4);
+}
+
+export function boardPath(boardId: string): string {
+  return `/b/${encodeURIComponent(boardId)}`;
+}
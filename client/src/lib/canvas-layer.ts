@@ -0,0 +1,17 @@
+// Drawing code here runs both on the page and in the scene worker, which has
+// no document. These helpers hide which kind of canvas it got.
+
+export type Layer = HTMLCanvasElement | OffscreenCanvas;
+export type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export function createLayer(width: number, height: number): Layer {
+  if (typeof OffscreenCanvas !== "undefined") return new OffscreenCanvas(width, height);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+export function layerContext(layer: Layer): Context2D | null {
+  return layer.getContext("2d") as Context2D | null;
+}
@@ -0,0 +1,65 @@
+import type { BoardItem } from "@/pages/whiteboard";
+import { createBoardFile, parseBoardFile } from "@shared/board-file";
+import { boardToPng } from "@/lib/export-png";
+import { boardToSvg } from "@/lib/export-svg";
+
+// Copied items go to the system clipboard as a board file in text/plain, so
+// they survive a trip through other apps and paste into any board, plus an
+// image of them for pasting anywhere else.
+
+export type ClipboardContent =
+  | { kind: "items"; items: BoardItem[] }
+  | { kind: "image"; file: File }
+  | { kind: "text"; text: string };
+
+function supportsType(type: string) {
+  const supports = (ClipboardItem as unknown as { supports?: (type: string) => boolean }).supports;
+  return supports ? supports(type) : type === "text/plain" || type === "image/png";
+}
+
+export async function writeItemsToClipboard(items: BoardItem[]): Promise<void> {
+  const json = JSON.stringify(createBoardFile(items));
+  if (typeof ClipboardItem === "undefined" || !navigator.clipboard.write) {
+    await navigator.clipboard.writeText(json);
+    return;
+  }
+
+  // Safari only keeps the user gesture for data handed over as promises, so
+  // the images are rendered while the clipboard write is already underway.
+  const data: Record<string, string | Promise<Blob>> = { "text/plain": json };
+  if (supportsType("image/png")) {
+    data["image/png"] = boardToPng(items, { background: "transparent" }).then(
+      (png) => png ?? Promise.reject(new Error("Nothing to rasterize")),
+    );
+  }
+  const svg = boardToSvg(items, { background: "transparent" });
+  if (svg && supportsType("image/svg+xml")) {
+    data["image/svg+xml"] = Promise.resolve(new Blob([svg], { type: "image/svg+xml" }));
+  }
+  try {
+    await navigator.clipboard.write([new ClipboardItem(data)]);
+  } catch {
+    // Some browsers refuse image types they otherwise claim to support.
+    await navigator.clipboard.writeText(json);
+  }
+}
+
+// What a paste event carries, in order of preference: our own items, an
+// image file, then plain text.
+export function readClipboard(data: DataTransfer): ClipboardContent | null {
+  const text = data.getData("text/plain");
+  if (text) {
+    try {
+      const result = parseBoardFile(JSON.parse(text));
+      if (result.success && result.data.items.length > 0) {
+        return { kind: "items", items: result.data.items };
+      }
+    } catch {
+      // Not JSON, so ordinary text.
+    }
+  }
+  const file = Array.from(data.files).find((f) => f.type.startsWith("image/"));
+  if (file) return { kind: "image", file };
+  if (text.trim()) return { kind: "text", text: text.replace(/\r\n?/g, "\n") };
+  return null;
+}
@@ -0,0 +1,312 @@
+import type { BoardItem } from "@/pages/whiteboard";
+import { itemExtent, type Rect } from "@/lib/spatial-index";
+import { stickyRect } from "@/lib/sticky-notes";
+
+type Point = { x: number; y: number };
+type ConnectorData = Extract<BoardItem, { type: "connector" }>["data"];
+type ConnectorEnd = ConnectorData["start"];
+type Side = NonNullable<ConnectorEnd["bind"]>["side"];
+
+// Connectors attach to the middle of one side of a shape, text, image or note.
+// The attached end keeps its own x/y, so anything that draws a connector
+// never has to look up other items; resolveConnectors moves those ends
+// whenever the items they are attached to change.
+
+const SIDE_NORMALS: Record<Side, Point> = {
+  n: { x: 0, y: -1 },
+  e: { x: 1, y: 0 },
+  s: { x: 0, y: 1 },
+  w: { x: -1, y: 0 },
+};
+
+// How far an elbow runs straight out of the side it is attached to before
+// turning.
+const ELBOW_STUB = 20;
+const CURVE_SAMPLES = 24;
+
+function canBind(item: BoardItem) {
+  return (
+    item.type === "shape" || item.type === "text" || item.type === "image" || item.type === "sticky"
+  );
+}
+
+// The outline ends attach to: a shape's own box, stroke width aside, and a
+// note's square without its shadow.
+function bindRect(item: BoardItem): Rect {
+  if (item.type === "sticky") return stickyRect(item.data);
+  if (item.type === "shape") {
+    const sh = item.data;
+    return {
+      x: Math.min(sh.x, sh.x + sh.w),
+      y: Math.min(sh.y, sh.y + sh.h),
+      w: Math.abs(sh.w),
+      h: Math.abs(sh.h),
+    };
+  }
+  return itemExtent(item);
+}
+
+function sidePoint(r: Rect, side: Side): Point {
+  if (side === "n") return { x: r.x + r.w / 2, y: r.y };
+  if (side === "s") return { x: r.x + r.w / 2, y: r.y + r.h };
+  if (side === "e") return { x: r.x + r.w, y: r.y + r.h / 2 };
+  return { x: r.x, y: r.y + r.h / 2 };
+}
+
+// Where a connector end dragged to `p` goes: the nearest side of the topmost
+// item under it, or `p` itself over empty board. `candidates` come from the
+// spatial index in z-order; `tolerance` is in board units.
+export function snapEnd(p: Point, candidates: BoardItem[], tolerance: number): ConnectorEnd {
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    const it = candidates[i];
+    if (!canBind(it)) continue;
+    const r = bindRect(it);
+    if (
+      p.x < r.x - tolerance ||
+      p.x > r.x + r.w + tolerance ||
+      p.y < r.y - tolerance ||
+      p.y > r.y + r.h + tolerance
+    ) {
+      continue;
+    }
+    let best: Side = "n";
+    let bestDist = Infinity;
+    for (const side of Object.keys(SIDE_NORMALS) as Side[]) {
+      const q = sidePoint(r, side);
+      const d = Math.hypot(p.x - q.x, p.y - q.y);
+      if (d < bestDist) {
+        best = side;
+        bestDist = d;
+      }
+    }
+    return { ...sidePoint(r, best), bind: { id: it.data.id, side: best } };
+  }
+  return { x: p.x, y: p.y };
+}
+
+function resolveEnd(end: ConnectorEnd, byId: Map<string, BoardItem>): ConnectorEnd {
+  const target = end.bind && byId.get(end.bind.id);
+  // Ends whose item is gone stay where they were, attached in case an undo
+  // brings the item back.
+  if (!end.bind || !target || !canBind(target)) return end;
+  const p = sidePoint(bindRect(target), end.bind.side);
+  return p.x === end.x && p.y === end.y ? end : { ...end, x: p.x, y: p.y };
+}
+
+// Moves attached connector ends onto the items they are attached to.
+// Returns `items` itself when nothing had to move.
+export function resolveConnectors(items: BoardItem[]): BoardItem[] {
+  if (!items.some((it) => it.type === "connector" && (it.data.start.bind || it.data.end.bind))) {
+    return items;
+  }
+  const byId = new Map(items.map((it) => [it.data.id, it]));
+  let changed = false;
+  const next = items.map((it) => {
+    if (it.type !== "connector") return it;
+    const start = resolveEnd(it.data.start, byId);
+    const end = resolveEnd(it.data.end, byId);
+    if (start === it.data.start && end === it.data.end) return it;
+    changed = true;
+    return { type: "connector", data: { ...it.data, start, end } } as BoardItem;
+  });
+  return changed ? next : items;
+}
+
+// Detaches a connector from items outside `keep`, e.g. when it is dragged
+// away from them. Other items are returned as they are.
+export function releaseConnector(item: BoardItem, keep: Set<string>): BoardItem {
+  if (item.type !== "connector") return item;
+  const release = (end: ConnectorEnd): ConnectorEnd =>
+    end.bind && !keep.has(end.bind.id) ? { x: end.x, y: end.y } : end;
+  const start = release(item.data.start);
+  const end = release(item.data.end);
+  if (start === item.data.start && end === item.data.end) return item;
+  return { type: "connector", data: { ...item.data, start, end } };
+}
+
+// Points an attachment id at the copy of its item after a paste or
+// duplicate; ends attached to items that weren't copied let go.
+export function remapConnector(item: BoardItem, ids: Map<string, string>): BoardItem {
+  if (item.type !== "connector") return item;
+  const remap = (end: ConnectorEnd): ConnectorEnd => {
+    if (!end.bind) return end;
+    const id = ids.get(end.bind.id);
+    return id ? { ...end, bind: { ...end.bind, id } } : { x: end.x, y: end.y };
+  };
+  return {
+    type: "connector",
+    data: { ...item.data, start: remap(item.data.start), end: remap(item.data.end) },
+  };
+}
+
+// Direction a connector leaves an end in: out of the side it is attached
+// to, otherwise along the dominant axis towards the other end.
+function leaveDirection(end: ConnectorEnd, other: Point): Point {
+  if (end.bind) return SIDE_NORMALS[end.bind.side];
+  const dx = other.x - end.x;
+  const dy = other.y - end.y;
+  if (Math.abs(dx) >= Math.abs(dy)) return { x: Math.sign(dx) || 1, y: 0 };
+  return { x: 0, y: Math.sign(dy) || 1 };
+}
+
+function elbowPoints(c: ConnectorData): Point[] {
+  const { start, end } = c;
+  const ds = leaveDirection(start, end);
+  const de = leaveDirection(end, start);
+  const s = {
+    x: start.x + ds.x * (start.bind ? ELBOW_STUB : 0),
+    y: start.y + ds.y * (start.bind ? ELBOW_STUB : 0),
+  };
+  const e = {
+    x: end.x + de.x * (end.bind ? ELBOW_STUB : 0),
+    y: end.y + de.y * (end.bind ? ELBOW_STUB : 0),
+  };
+  const startHorizontal = ds.y === 0;
+  const endHorizontal = de.y === 0;
+  let middle: Point[];
+  if (startHorizontal && endHorizontal) {
+    const mx = (s.x + e.x) / 2;
+    middle = [{ x: mx, y: s.y }, { x: mx, y: e.y }];
+  } else if (!startHorizontal && !endHorizontal) {
+    const my = (s.y + e.y) / 2;
+    middle = [{ x: s.x, y: my }, { x: e.x, y: my }];
+  } else if (startHorizontal) {
+    middle = [{ x: e.x, y: s.y }];
+  } else {
+    middle = [{ x: s.x, y: e.y }];
+  }
+
+  // Drop repeated points and the middle of straight runs.
+  const points: Point[] = [];
+  for (const p of [{ x: start.x, y: start.y }, s, ...middle, e, { x: end.x, y: end.y }]) {
+    const last = points[points.length - 1];
+    if (last && Math.abs(last.x - p.x) < 0.01 && Math.abs(last.y - p.y) < 0.01) continue;
+    const prev = points[points.length - 2];
+    if (
+      prev &&
+      ((Math.abs(prev.x - last.x) < 0.01 && Math.abs(last.x - p.x) < 0.01) ||
+        (Math.abs(prev.y - last.y) < 0.01 && Math.abs(last.y - p.y) < 0.01))
+    ) {
+      points[points.length - 1] = p;
+      continue;
+    }
+    points.push(p);
+  }
+  return points;
+}
+
+function curveControls(c: ConnectorData): [Point, Point, Point, Point] {
+  const { start, end } = c;
+  const reach = Math.max(30, Math.hypot(end.x - start.x, end.y - start.y) * 0.4);
+  const ds = leaveDirection(start, end);
+  const de = leaveDirection(end, start);
+  return [
+    { x: start.x, y: start.y },
+    { x: start.x + ds.x * reach, y: start.y + ds.y * reach },
+    { x: end.x + de.x * reach, y: end.y + de.y * reach },
+    { x: end.x, y: end.y },
+  ];
+}
+
+export type ConnectorGeometry =
+  | { kind: "polyline"; points: Point[] }
+  | { kind: "curve"; points: [Point, Point, Point, Point] };
+
+// The path a connector takes, before arrowheads.
+export function connectorGeometry(c: ConnectorData): ConnectorGeometry {
+  if (c.routing === "curved") return { kind: "curve", points: curveControls(c) };
+  if (c.routing === "elbow") return { kind: "polyline", points: elbowPoints(c) };
+  return {
+    kind: "polyline",
+    points: [
+      { x: c.start.x, y: c.start.y },
+      { x: c.end.x, y: c.end.y },
+    ],
+  };
+}
+
+// The path as line segments, for hit testing and bounds.
+export function connectorPolyline(c: ConnectorData): Point[] {
+  const g = connectorGeometry(c);
+  if (g.kind === "polyline") return g.points;
+  const [p0, p1, p2, p3] = g.points;
+  const points: Point[] = [];
+  for (let i = 0; i <= CURVE_SAMPLES; i++) {
+    const t = i / CURVE_SAMPLES;
+    const u = 1 - t;
+    const a = u * u * u;
+    const b = 3 * u * u * t;
+    const d = 3 * u * t * t;
+    const e = t * t * t;
+    points.push({
+      x: a * p0.x + b * p1.x + d * p2.x + e * p3.x,
+      y: a * p0.y + b * p1.y + d * p2.y + e * p3.y,
+    });
+  }
+  return points;
+}
+
+export function arrowSize(c: ConnectorData) {
+  return 8 + c.strokeWidth * 3;
+}
+
+function arrowHead(tip: Point, from: Point, size: number): Point[] | null {
+  const dx = tip.x - from.x;
+  const dy = tip.y - from.y;
+  const len = Math.hypot(dx, dy);
+  if (len < 0.01) return null;
+  const ux = dx / len;
+  const uy = dy / len;
+  const bx = tip.x - ux * size;
+  const by = tip.y - uy * size;
+  const half = size * 0.45;
+  return [
+    tip,
+    { x: bx - uy * half, y: by + ux * half },
+    { x: bx + uy * half, y: by - ux * half },
+  ];
+}
+
+// Filled triangles for the connector's arrowheads, pointing along the path
+// where it meets each end.
+export function connectorArrowheads(c: ConnectorData): Point[][] {
+  const g = connectorGeometry(c);
+  const pts = g.points;
+  // The neighbour of each end the path arrives from, skipping points on top
+  // of the end itself (a curve's control point can coincide with it).
+  const before = (list: Point[], tip: Point) =>
+    list.find((p) => Math.hypot(p.x - tip.x, p.y - tip.y) > 0.01) ?? tip;
+  const size = arrowSize(c);
+  const heads: Point[][] = [];
+  if (c.startArrow) {
+    const head = arrowHead(pts[0], before(pts.slice(1), pts[0]), size);
+    if (head) heads.push(head);
+  }
+  if (c.endArrow) {
+    const last = pts[pts.length - 1];
+    const head = arrowHead(last, before(pts.slice(0, -1).reverse(), last), size);
+    if (head) heads.push(head);
+  }
+  return heads;
+}
+
+function pullBack(tip: Point, toward: Point, by: number): Point {
+  const len = Math.hypot(toward.x - tip.x, toward.y - tip.y);
+  if (len < 0.01) return tip;
+  const t = Math.min(by, len) / len;
+  return { x: tip.x + (toward.x - tip.x) * t, y: tip.y + (toward.y - tip.y) * t };
+}
+
+// The path as it is stroked: arrowed ends stop halfway into their
+// arrowheads, so a thick line doesn't poke out past the tip.
+export function connectorLine(c: ConnectorData): ConnectorGeometry {
+  const g = connectorGeometry(c);
+  const by = arrowSize(c) / 2;
+  const pts = g.points.slice();
+  const n = pts.length;
+  if (c.startArrow) pts[0] = pullBack(pts[0], pts[1], by);
+  if (c.endArrow) pts[n - 1] = pullBack(pts[n - 1], pts[n - 2], by);
+  return g.kind === "curve"
+    ? { kind: "curve", points: pts as [Point, Point, Point, Point] }
+    : { kind: "polyline", points: pts };
+}
@@ -0,0 +1,164 @@
+import type { GState, jsPDF } from "jspdf";
+import type { BoardItem } from "@/pages/whiteboard";
+import type { Context2D } from "@/lib/canvas-layer";
+import { exportArea } from "@/lib/export-svg";
+import { paintItems } from "@/lib/render-items";
+import type { Rect } from "@/lib/spatial-index";
+
+export type PdfLayout = "fit" | "a4" | "letter";
+
+// Board pixels are CSS pixels: 96 per inch, 72 points per inch.
+const PX_TO_PT = 0.75;
+const PAGE_MARGIN_PT = 36;
+const PAGE_SIZES_PT: Record<Exclude<PdfLayout, "fit">, [number, number]> = {
+  a4: [595.28, 841.89],
+  letter: [612, 792],
+};
+
+function alphaOf(color: unknown) {
+  if (typeof color !== "string") return 1;
+  const rgba = /^rgba\([^,]+,[^,]+,[^,]+,\s*([\d.]+)\s*\)$/i.exec(color.trim());
+  return rgba ? Number(rgba[1]) : 1;
+}
+
+// jsPDF's canvas-style context ignores the alpha of rgba() colors, which
+// would make translucent shape fills opaque. Apply it as a PDF graphics state
+// right before each paint operation instead.
+function withAlpha(pdf: jsPDF, PdfGState: typeof GState): CanvasRenderingContext2D {
+  const ctx = pdf.context2d;
+  let fillAlpha = 1;
+  let strokeAlpha = 1;
+  const paintOps = new Set<PropertyKey>(["fill", "stroke", "fillText", "drawImage"]);
+  return new Proxy(ctx, {
+    set(target, prop, value) {
+      if (prop === "fillStyle") fillAlpha = alphaOf(value);
+      if (prop === "strokeStyle") strokeAlpha = alphaOf(value);
+      return Reflect.set(target, prop, value);
+    },
+    get(target, prop) {
+      const value = Reflect.get(target, prop);
+      if (typeof value !== "function") return value;
+      if (!paintOps.has(prop)) return value.bind(target);
+      return (...args: unknown[]) => {
+        const image = prop === "drawImage";
+        pdf.setGState(
+          new PdfGState({
+            opacity: image ? 1 : fillAlpha,
+            "stroke-opacity": image ? 1 : strokeAlpha,
+          }),
+        );
+        return value.apply(target, args);
+      };
+    },
+  }) as unknown as CanvasRenderingContext2D;
+}
+
+// jsPDF embeds PNG and JPEG directly; anything else goes through a canvas.
+async function pdfImageSource(src: string): Promise<string | null> {
+  if (/^data:image\/(png|jpe?g);/i.test(src)) return src;
+  try {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.src = src;
+    await img.decode();
+    const canvas = document.createElement("canvas");
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    canvas.getContext("2d")?.drawImage(img, 0, 0);
+    return canvas.toDataURL("image/png");
+  } catch {
+    return null;
+  }
+}
+
+type Tiling = { orientation: "portrait" | "landscape"; cols: number; rows: number; tile: Rect };
+
+// Splits the area into page-sized tiles at print scale, in whichever
+// orientation needs fewer pages.
+function tilePages(area: Rect, [pageW, pageH]: [number, number]): Tiling {
+  const options = (["portrait", "landscape"] as const).map((orientation): Tiling => {
+    const [w, h] = orientation === "portrait" ? [pageW, pageH] : [pageH, pageW];
+    const tile = {
+      x: PAGE_MARGIN_PT,
+      y: PAGE_MARGIN_PT,
+      w: w - PAGE_MARGIN_PT * 2,
+      h: h - PAGE_MARGIN_PT * 2,
+    };
+    return {
+      orientation,
+      cols: Math.ceil((area.w * PX_TO_PT) / tile.w),
+      rows: Math.ceil((area.h * PX_TO_PT) / tile.h),
+      tile,
+    };
+  });
+  const [portrait, landscape] = options;
+  return landscape.cols * landscape.rows < portrait.cols * portrait.rows ? landscape : portrait;
+}
+
+// Renders the whole board through the same item walk as the canvas, so text
+// stays real (selectable) PDF text. Eraser strokes are painted in the page
+// color because PDF has no way to cut holes into earlier content.
+export async function boardToPdf(
+  items: BoardItem[],
+  { layout }: { layout: PdfLayout },
+): Promise<Blob | null> {
+  const area = exportArea(items);
+  if (!area) return null;
+
+  const { jsPDF: Pdf, GState: PdfGState } = await import("jspdf");
+  const sources = new Map<string, string | null>();
+  await Promise.all(
+    items.map(async (it) => {
+      if (it.type !== "image" || sources.has(it.data.src)) return;
+      sources.set(it.data.src, null);
+      sources.set(it.data.src, await pdfImageSource(it.data.src));
+    }),
+  );
+  const options = {
+    eraserColor: "#FFFFFF",
+    drawImage: (ctx: Context2D, im: Extract<BoardItem, { type: "image" }>["data"]) => {
+      const src = sources.get(im.src);
+      if (!src) return;
+      (ctx as unknown as { drawImage(src: string, x: number, y: number, w: number, h: number): void })
+        .drawImage(src, im.x, im.y, im.width, im.height);
+    },
+  };
+
+  if (layout === "fit") {
+    const w = area.w * PX_TO_PT;
+    const h = area.h * PX_TO_PT;
+    const pdf = new Pdf({
+      unit: "pt",
+      format: [w, h],
+      orientation: w > h ? "landscape" : "portrait",
+      compress: true,
+    });
+    const ctx = withAlpha(pdf, PdfGState);
+    ctx.scale(PX_TO_PT, PX_TO_PT);
+    ctx.translate(-area.x, -area.y);
+    paintItems(ctx, items, options);
+    return pdf.output("blob");
+  }
+
+  const { orientation, cols, rows, tile } = tilePages(area, PAGE_SIZES_PT[layout]);
+  const pdf = new Pdf({ unit: "pt", format: layout, orientation, compress: true });
+  const ctx = withAlpha(pdf, PdfGState);
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (row > 0 || col > 0) pdf.addPage(layout, orientation);
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(tile.x, tile.y, tile.w, tile.h);
+      ctx.clip();
+      ctx.translate(tile.x, tile.y);
+      ctx.scale(PX_TO_PT, PX_TO_PT);
+      ctx.translate(
+        -(area.x + (col * tile.w) / PX_TO_PT),
+        -(area.y + (row * tile.h) / PX_TO_PT),
+      );
+      paintItems(ctx, items, options);
+      ctx.restore();
+    }
+  }
+  return pdf.output("blob");
+}
@@ -0,0 +1,58 @@
+import type { BoardItem } from "@/pages/whiteboard";
+import { createLayer, layerContext } from "@/lib/canvas-layer";
+import { exportArea, PAPER_COLOR, type ExportBackground } from "@/lib/export-svg";
+import { paintItems } from "@/lib/render-items";
+
+async function loadImage(src: string): Promise<HTMLImageElement | null> {
+  const img = new Image();
+  img.src = src;
+  try {
+    await img.decode();
+    return img;
+  } catch {
+    return null;
+  }
+}
+
+// Rasterizes the given items, independent of what the viewport shows, at
+// `scale` device pixels per board pixel. Images are decoded up front because
+// painting is synchronous.
+export async function boardToPng(
+  items: BoardItem[],
+  { background, scale = 2 }: { background: ExportBackground; scale?: number },
+): Promise<Blob | null> {
+  const area = exportArea(items);
+  if (!area) return null;
+
+  const images = new Map<string, HTMLImageElement | null>();
+  await Promise.all(
+    items.map(async (it) => {
+      if (it.type !== "image" || images.has(it.data.src)) return;
+      images.set(it.data.src, null);
+      images.set(it.data.src, await loadImage(it.data.src));
+    }),
+  );
+
+  const layer = createLayer(Math.ceil(area.w * scale), Math.ceil(area.h * scale));
+  const ctx = layerContext(layer);
+  if (!ctx) return null;
+  if (background === "paper") {
+    ctx.fillStyle = PAPER_COLOR;
+    ctx.fillRect(0, 0, layer.width, layer.height);
+  }
+  ctx.setTransform(scale, 0, 0, scale, -area.x * scale, -area.y * scale);
+  paintItems(ctx, items, {
+    // On paper, eraser strokes paint the background instead of cutting
+    // holes into it.
+    eraserColor: background === "paper" ? PAPER_COLOR : undefined,
+    drawImage: (ctx, im) => {
+      const img = images.get(im.src);
+      if (img) ctx.drawImage(img, im.x, im.y, im.width, im.height);
+    },
+  });
+
+  if ("convertToBlob" in layer) {
+    return layer.convertToBlob({ type: "image/png" }).catch(() => null);
+  }
+  return new Promise((resolve) => layer.toBlob(resolve, "image/png"));
+}
@@ -0,0 +1,247 @@
+import type { BoardItem } from "@/pages/whiteboard";
+import { connectorArrowheads, connectorLine } from "@/lib/connectors";
+import { itemExtent, type Rect } from "@/lib/spatial-index";
+import {
+  STICKY_PADDING,
+  STICKY_SHADOW,
+  STICKY_TEXT_COLOR,
+  stickyTextLayout,
+} from "@/lib/sticky-notes";
+import { safeHref } from "@/lib/rich-text";
+import {
+  BULLET,
+  BULLET_OFFSET,
+  TEXT_CODE_BACKGROUND,
+  TEXT_CODE_FONT_STACK,
+  TEXT_DEFAULT_WEIGHT,
+  TEXT_FONT_STACK,
+  TEXT_LINE_GAP,
+  TEXT_LINK_COLOR,
+  boldWeight,
+  layoutText,
+  textDecorations,
+  textFontStack,
+  textLineHeight,
+} from "@/lib/text-layout";
+
+export type ExportBackground = "transparent" | "paper";
+
+// Same color the canvas clears to under the grid.
+export const PAPER_COLOR = "#F7FAFC";
+
+const EXPORT_PADDING = 24;
+const STICKY_FILTER_ID = "sticky-shadow";
+
+// Area covered by everything that paints. Eraser strokes only remove paint,
+// so they never grow the bounds.
+export function contentBounds(items: BoardItem[]): Rect | null {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const item of items) {
+    if (item.type === "stroke" && (item.data.tool === "eraser" || item.data.points.length < 2)) {
+      continue;
+    }
+    const e = itemExtent(item);
+    minX = Math.min(minX, e.x);
+    minY = Math.min(minY, e.y);
+    maxX = Math.max(maxX, e.x + e.w);
+    maxY = Math.max(maxY, e.y + e.h);
+  }
+
+  if (minX > maxX) return null;
+  return { x: minX, y: minY, w: maxX - minX, h: maxY - minY };
+}
+
+// Content bounds plus a margin, i.e. the area an export covers.
+export function exportArea(items: BoardItem[]): Rect | null {
+  const bounds = contentBounds(items);
+  if (!bounds) return null;
+  return {
+    x: bounds.x - EXPORT_PADDING,
+    y: bounds.y - EXPORT_PADDING,
+    w: bounds.w + EXPORT_PADDING * 2,
+    h: bounds.h + EXPORT_PADDING * 2,
+  };
+}
+
+function esc(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function num(n: number) {
+  return String(Math.round(n * 100) / 100);
+}
+
+// rgba() works in browsers but not in every SVG consumer, so alpha goes into
+// the matching *-opacity attribute.
+function paint(attr: "fill" | "stroke", color: string) {
+  const rgba = /^rgba\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*\)$/i.exec(
+    color.trim(),
+  );
+  if (!rgba) return `${attr}="${esc(color)}"`;
+  return `${attr}="rgb(${rgba[1]},${rgba[2]},${rgba[3]})" ${attr}-opacity="${rgba[4]}"`;
+}
+
+// The canvas blur radius is about two standard deviations of the SVG one.
+function stickyShadowFilter() {
+  const rgba = /^rgba\(([^,]+),([^,]+),([^,]+),([^)]+)\)$/.exec(STICKY_SHADOW.color);
+  const flood = rgba
+    ? `flood-color="rgb(${rgba[1]},${rgba[2]},${rgba[3]})" flood-opacity="${rgba[4]}"`
+    : `flood-color="${esc(STICKY_SHADOW.color)}"`;
+  return `<filter id="${STICKY_FILTER_ID}" x="-20%" y="-20%" width="140%" height="140%"><feDropShadow dx="0" dy="${num(STICKY_SHADOW.offsetY)}" stdDeviation="${num(STICKY_SHADOW.blur / 2)}" ${flood}/></filter>`;
+}
+
+function strokePath(points: { x: number; y: number }[]) {
+  return points.map((p, i) => `${i === 0 ? "M" : "L"}${num(p.x)} ${num(p.y)}`).join(" ");
+}
+
+function renderItem(item: BoardItem): string {
+  if (item.type === "stroke") {
+    const s = item.data;
+    if (s.points.length < 2) return "";
+    return `<path d="${strokePath(s.points)}" fill="none" ${paint("stroke", s.color)} stroke-width="${num(s.size)}" stroke-linecap="round" stroke-linejoin="round"/>`;
+  }
+
+  if (item.type === "shape") {
+    const sh = item.data;
+    const common = `${paint("fill", sh.fill)} ${paint("stroke", sh.stroke)} stroke-width="${num(sh.strokeWidth)}"`;
+    if (sh.kind === "rect") {
+      return `<rect x="${num(Math.min(sh.x, sh.x + sh.w))}" y="${num(Math.min(sh.y, sh.y + sh.h))}" width="${num(Math.abs(sh.w))}" height="${num(Math.abs(sh.h))}" ${common}/>`;
+    }
+    return `<ellipse cx="${num(sh.x + sh.w / 2)}" cy="${num(sh.y + sh.h / 2)}" rx="${num(Math.abs(sh.w / 2))}" ry="${num(Math.abs(sh.h / 2))}" ${common}/>`;
+  }
+
+  if (item.type === "text") {
+    const t = item.data;
+    const lineHeight = textLineHeight(t.fontSize, t.lineHeight);
+    const behind: string[] = [];
+    const tspans: string[] = [];
+    const over: string[] = [];
+    // The canvas draws text with textBaseline "top"; text-before-edge is the
+    // SVG equivalent, set per tspan because older renderers don't inherit it.
+    // Every run is placed on its own, at the x the canvas draws it at.
+    layoutText(t).lines.forEach((line, i) => {
+      const y = t.y + i * lineHeight;
+      const x = t.x + line.x + line.indent;
+      if (line.bullet) {
+        tspans.push(
+          `<tspan x="${num(t.x + line.x + t.fontSize * BULLET_OFFSET)}" y="${num(y)}" dominant-baseline="text-before-edge">${BULLET}</tspan>`,
+        );
+      }
+      for (const run of line.runs) {
+        const { span } = run;
+        if (span.code) {
+          behind.push(
+            `<rect x="${num(x + run.x)}" y="${num(y)}" width="${num(run.w)}" height="${num(t.fontSize + TEXT_LINE_GAP / 2)}" ${paint("fill", TEXT_CODE_BACKGROUND)}/>`,
+          );
+        }
+        const color = span.link ? TEXT_LINK_COLOR : t.color;
+        const style = [
+          span.code && `font-family="${esc(TEXT_CODE_FONT_STACK)}"`,
+          span.bold && `font-weight="${boldWeight(t.weight)}"`,
+          span.italic && `font-style="italic"`,
+          span.link && paint("fill", color),
+        ]
+          .filter(Boolean)
+          .map((attr) => ` ${attr}`)
+          .join("");
+        const tspan = `<tspan x="${num(x + run.x)}" y="${num(y)}" dominant-baseline="text-before-edge"${style}>${esc(run.text)}</tspan>`;
+        const href = span.link && safeHref(span.link);
+        tspans.push(href ? `<a href="${esc(href)}">${tspan}</a>` : tspan);
+        const { offsets, thickness } = textDecorations(span, t.fontSize);
+        for (const offset of offsets) {
+          over.push(
+            `<rect x="${num(x + run.x)}" y="${num(y + offset - thickness / 2)}" width="${num(run.w)}" height="${num(thickness)}" ${paint("fill", color)}/>`,
+          );
+        }
+      }
+    });
+    const text = `<text font-family="${esc(textFontStack(t.font))}" font-size="${num(t.fontSize)}" font-weight="${t.weight ?? TEXT_DEFAULT_WEIGHT}" ${paint("fill", t.color)} xml:space="preserve">${tspans.join("")}</text>`;
+    return behind.join("") + text + over.join("");
+  }
+
+  if (item.type === "sticky") {
+    const n = item.data;
+    const { fontSize, lines } = stickyTextLayout(n.text, n.size);
+    const tspans = lines
+      .map(
+        (line, i) =>
+          `<tspan x="${num(n.x + STICKY_PADDING)}" y="${num(n.y + STICKY_PADDING + i * textLineHeight(fontSize))}" dominant-baseline="text-before-edge">${esc(line)}</tspan>`,
+      )
+      .join("");
+    return `<rect x="${num(n.x)}" y="${num(n.y)}" width="${num(n.size)}" height="${num(n.size)}" ${paint("fill", n.color)} filter="url(#${STICKY_FILTER_ID})"/><text font-family="${esc(TEXT_FONT_STACK)}" font-size="${num(fontSize)}" font-weight="500" ${paint("fill", STICKY_TEXT_COLOR)} xml:space="preserve">${tspans}</text>`;
+  }
+
+  if (item.type === "connector") {
+    const c = item.data;
+    const line = connectorLine(c);
+    const [first, ...rest] = line.points;
+    const d =
+      line.kind === "curve"
+        ? `M${num(first.x)} ${num(first.y)} C${rest.map((p) => `${num(p.x)} ${num(p.y)}`).join(" ")}`
+        : strokePath(line.points);
+    const heads = connectorArrowheads(c)
+      .map((head) => `<path d="${strokePath(head)} Z" ${paint("fill", c.color)}/>`)
+      .join("");
+    return `<path d="${d}" fill="none" ${paint("stroke", c.color)} stroke-width="${num(c.strokeWidth)}" stroke-linecap="round" stroke-linejoin="round"/>${heads}`;
+  }
+
+  const im = item.data;
+  return `<image href="${esc(im.src)}" x="${num(im.x)}" y="${num(im.y)}" width="${num(im.width)}" height="${num(im.height)}" preserveAspectRatio="none"/>`;
+}
+
+// Serializes the whole board, not just the visible viewport. On the canvas an
+// eraser stroke punches through everything painted before it, so each run of
+// eraser strokes becomes a mask over the markup emitted so far; later items
+// stay untouched, exactly as on screen.
+export function boardToSvg(
+  items: BoardItem[],
+  { background }: { background: ExportBackground },
+): string | null {
+  const view = exportArea(items);
+  if (!view) return null;
+  const viewRect = `x="${num(view.x)}" y="${num(view.y)}" width="${num(view.w)}" height="${num(view.h)}"`;
+
+  const masks: string[] = [];
+  let body = "";
+  let erasing: string[] = [];
+  const flushEraser = () => {
+    if (erasing.length === 0) return;
+    const id = `erase-${masks.length}`;
+    masks.push(
+      `<mask id="${id}" maskUnits="userSpaceOnUse" ${viewRect}><rect ${viewRect} fill="white"/>${erasing.join("")}</mask>`,
+    );
+    body = `<g mask="url(#${id})">${body}</g>`;
+    erasing = [];
+  };
+
+  for (const item of items) {
+    if (item.type === "stroke" && item.data.tool === "eraser") {
+      const s = item.data;
+      if (body && s.points.length >= 2) {
+        erasing.push(
+          `<path d="${strokePath(s.points)}" fill="none" stroke="black" stroke-width="${num(s.size)}" stroke-linecap="round" stroke-linejoin="round"/>`,
+        );
+      }
+      continue;
+    }
+    flushEraser();
+    body += renderItem(item);
+  }
+  flushEraser();
+
+  const defs = items.some((it) => it.type === "sticky") ? [stickyShadowFilter(), ...masks] : masks;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(view.w)}" height="${num(view.h)}" viewBox="${num(view.x)} ${num(view.y)} ${num(view.w)} ${num(view.h)}">`,
+    defs.length > 0 ? `<defs>${defs.join("")}</defs>` : "",
+    background === "paper" ? `<rect ${viewRect} fill="${PAPER_COLOR}"/>` : "",
+    body,
+    "</svg>",
+  ].join("");
+}
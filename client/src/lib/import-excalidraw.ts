@@ -0,0 +1,209 @@
+import { z } from "zod";
+import type { BoardItem } from "@/pages/whiteboard";
+
+export const EXCALIDRAW_EXTENSION = ".excalidraw";
+
+// Only the fields we map. Everything else in a scene is ignored, and missing
+// styling falls back to Excalidraw's own defaults.
+const elementSchema = z
+  .object({
+    id: z.string(),
+    type: z.string(),
+    x: z.number(),
+    y: z.number(),
+    width: z.number().default(0),
+    height: z.number().default(0),
+    strokeColor: z.string().default("#1e1e1e"),
+    backgroundColor: z.string().default("transparent"),
+    fillStyle: z.string().default("solid"),
+    strokeWidth: z.number().default(2),
+    opacity: z.number().default(100),
+    isDeleted: z.boolean().default(false),
+    points: z.array(z.tuple([z.number(), z.number()])).optional(),
+    text: z.string().optional(),
+    fontSize: z.number().optional(),
+    fileId: z.string().nullable().optional(),
+  })
+  .passthrough();
+
+const sceneSchema = z.object({
+  type: z.literal("excalidraw"),
+  elements: z.array(z.unknown()),
+  files: z
+    .record(z.object({ dataURL: z.string() }).passthrough())
+    .default({}),
+});
+
+type Element = z.infer<typeof elementSchema>;
+
+export type ExcalidrawImport = {
+  items: BoardItem[];
+  // Types of elements that came in as placeholders, one entry per element.
+  unsupported: string[];
+};
+
+const PLACEHOLDER_MIN_SIZE = 40;
+const PLACEHOLDER_STROKE = "#94a3b8";
+const PLACEHOLDER_FILL = "rgba(148,163,184,0.12)";
+const PLACEHOLDER_TEXT = "#64748b";
+
+// Excalidraw draws freehand lines with perfect-freehand at roughly four
+// times the stroke width, thinning with speed; twice the width is close to
+// the average on screen.
+const FREEDRAW_WIDTH_SCALE = 2;
+
+function hexToRgba(color: string, alpha: number) {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+  if (!match) return null;
+  let hex = match[1];
+  if (hex.length === 3) hex = hex.replace(/./g, (c) => c + c);
+  const r = parseInt(hex.slice(0, 2), 16);
+  const g = parseInt(hex.slice(2, 4), 16);
+  const b = parseInt(hex.slice(4, 6), 16);
+  return `rgba(${r},${g},${b},${alpha})`;
+}
+
+// Hatched fills read as a light tint rather than a solid block.
+function shapeFill(el: Element) {
+  if (el.backgroundColor === "transparent") return "rgba(0,0,0,0)";
+  const alpha = (el.fillStyle === "solid" ? 1 : 0.3) * (el.opacity / 100);
+  return hexToRgba(el.backgroundColor, alpha) ?? el.backgroundColor;
+}
+
+function placeholder(el: Element, makeId: () => string): BoardItem[] {
+  const w = Math.max(Math.abs(el.width), PLACEHOLDER_MIN_SIZE);
+  const h = Math.max(Math.abs(el.height), PLACEHOLDER_MIN_SIZE);
+  const x = Math.min(el.x, el.x + el.width);
+  const y = Math.min(el.y, el.y + el.height);
+  return [
+    {
+      type: "shape",
+      data: {
+        id: makeId(),
+        kind: "rect",
+        x,
+        y,
+        w,
+        h,
+        stroke: PLACEHOLDER_STROKE,
+        fill: PLACEHOLDER_FILL,
+        strokeWidth: 1,
+      },
+    },
+    {
+      type: "text",
+      data: {
+        id: makeId(),
+        x: x + 8,
+        y: y + 8,
+        text: el.type,
+        color: PLACEHOLDER_TEXT,
+        fontSize: 12,
+      },
+    },
+  ];
+}
+
+function convert(
+  el: Element,
+  files: Record<string, { dataURL: string }>,
+  makeId: () => string,
+): BoardItem[] | null {
+  switch (el.type) {
+    case "freedraw": {
+      if (!el.points || el.points.length === 0) return [];
+      // A single point is a dot; the canvas only draws strokes of two or more.
+      const points = el.points.map(([px, py]) => ({ x: el.x + px, y: el.y + py }));
+      if (points.length === 1) points.push({ ...points[0] });
+      return [
+        {
+          type: "stroke",
+          data: {
+            id: makeId(),
+            tool: "pen",
+            color: el.strokeColor,
+            size: el.strokeWidth * FREEDRAW_WIDTH_SCALE,
+            points,
+          },
+        },
+      ];
+    }
+    case "rectangle":
+    case "ellipse":
+      return [
+        {
+          type: "shape",
+          data: {
+            id: makeId(),
+            kind: el.type === "rectangle" ? "rect" : "ellipse",
+            x: el.x,
+            y: el.y,
+            w: el.width,
+            h: el.height,
+            stroke: el.strokeColor,
+            fill: shapeFill(el),
+            strokeWidth: el.strokeWidth,
+          },
+        },
+      ];
+    case "text":
+      if (!el.text) return [];
+      return [
+        {
+          type: "text",
+          data: {
+            id: makeId(),
+            x: el.x,
+            y: el.y,
+            text: el.text,
+            color: el.strokeColor,
+            fontSize: el.fontSize ?? 20,
+          },
+        },
+      ];
+    case "image": {
+      const file = el.fileId ? files[el.fileId] : undefined;
+      if (!file) return null;
+      return [
+        {
+          type: "image",
+          data: {
+            id: makeId(),
+            x: el.x,
+            y: el.y,
+            width: el.width,
+            height: el.height,
+            src: file.dataURL,
+          },
+        },
+      ];
+    }
+    default:
+      return null;
+  }
+}
+
+// Maps an Excalidraw scene onto board items in the scene's own coordinates.
+// Elements we can't represent become a labelled placeholder box so nothing
+// silently disappears. Returns null when `raw` isn't an Excalidraw scene.
+export function importExcalidraw(raw: unknown, makeId: () => string): ExcalidrawImport | null {
+  const scene = sceneSchema.safeParse(raw);
+  if (!scene.success) return null;
+
+  const items: BoardItem[] = [];
+  const unsupported: string[] = [];
+  for (const candidate of scene.data.elements) {
+    const parsed = elementSchema.safeParse(candidate);
+    if (!parsed.success) continue;
+    const el = parsed.data;
+    if (el.isDeleted) continue;
+    const converted = convert(el, scene.data.files, makeId);
+    if (converted) {
+      items.push(...converted);
+    } else {
+      unsupported.push(el.type);
+      items.push(...placeholder(el, makeId));
+    }
+  }
+  return { items, unsupported };
+}
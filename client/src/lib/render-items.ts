@@ -0,0 +1,186 @@
+import type { BoardItem } from "@/pages/whiteboard";
+import type { Context2D } from "@/lib/canvas-layer";
+import { connectorArrowheads, connectorLine } from "@/lib/connectors";
+import {
+  STICKY_PADDING,
+  STICKY_SHADOW,
+  STICKY_TEXT_COLOR,
+  stickyTextLayout,
+} from "@/lib/sticky-notes";
+import {
+  BULLET,
+  BULLET_OFFSET,
+  TEXT_CODE_BACKGROUND,
+  TEXT_FONT_STACK,
+  TEXT_LINE_GAP,
+  TEXT_LINK_COLOR,
+  layoutText,
+  spanFont,
+  textDecorations,
+  textLineHeight,
+} from "@/lib/text-layout";
+
+type ImageData = Extract<BoardItem, { type: "image" }>["data"];
+
+export type PaintOptions = {
+  // Draws an image item, or skips it while its pixels are still loading.
+  drawImage: (ctx: Context2D, image: ImageData) => void;
+  // Targets without compositing (PDF) paint eraser strokes in the background
+  // color instead of cutting holes into what is underneath.
+  eraserColor?: string;
+};
+
+// Ellipse as four cubic Béziers. Every 2D context we draw on has
+// bezierCurveTo, but not all of them have ellipse().
+function ellipsePath(ctx: Context2D, cx: number, cy: number, rx: number, ry: number) {
+  const k = 0.5522847498;
+  ctx.moveTo(cx + rx, cy);
+  ctx.bezierCurveTo(cx + rx, cy + ry * k, cx + rx * k, cy + ry, cx, cy + ry);
+  ctx.bezierCurveTo(cx - rx * k, cy + ry, cx - rx, cy + ry * k, cx - rx, cy);
+  ctx.bezierCurveTo(cx - rx, cy - ry * k, cx - rx * k, cy - ry, cx, cy - ry);
+  ctx.bezierCurveTo(cx + rx * k, cy - ry, cx + rx, cy - ry * k, cx + rx, cy);
+  ctx.closePath();
+}
+
+// Paints items back to front in board coordinates (the caller sets up the
+// viewport transform). This is the one item walk shared by the canvas and
+// the exporters that can draw through a 2D context.
+export function paintItems(ctx: Context2D, items: BoardItem[], options: PaintOptions) {
+  for (const item of items) {
+    if (item.type === "stroke") {
+      const s = item.data;
+      if (s.points.length < 2) continue;
+
+      ctx.lineCap = "round";
+      ctx.lineJoin = "round";
+      ctx.lineWidth = s.size;
+
+      if (s.tool === "eraser" && options.eraserColor === undefined) {
+        // Cuts through everything painted so far on this layer
+        ctx.globalCompositeOperation = "destination-out";
+        ctx.strokeStyle = "rgba(0,0,0,1)";
+      } else {
+        ctx.globalCompositeOperation = "source-over";
+        ctx.strokeStyle = s.tool === "eraser" ? options.eraserColor! : s.color;
+      }
+
+      ctx.beginPath();
+      ctx.moveTo(s.points[0].x, s.points[0].y);
+      for (let i = 1; i < s.points.length; i++) {
+        const p = s.points[i];
+        ctx.lineTo(p.x, p.y);
+      }
+      ctx.stroke();
+      ctx.globalCompositeOperation = "source-over";
+    }
+
+    if (item.type === "shape") {
+      const sh = item.data;
+      ctx.globalCompositeOperation = "source-over";
+      ctx.lineWidth = sh.strokeWidth;
+      ctx.strokeStyle = sh.stroke;
+      ctx.fillStyle = sh.fill;
+
+      ctx.beginPath();
+      if (sh.kind === "rect") {
+        ctx.rect(sh.x, sh.y, sh.w, sh.h);
+      } else {
+        ellipsePath(ctx, sh.x + sh.w / 2, sh.y + sh.h / 2, Math.abs(sh.w / 2), Math.abs(sh.h / 2));
+      }
+      ctx.fill();
+      ctx.stroke();
+    }
+
+    if (item.type === "text") {
+      const t = item.data;
+      ctx.globalCompositeOperation = "source-over";
+      ctx.textBaseline = "top";
+      layoutText(t).lines.forEach((line, i) => {
+        const y = t.y + i * textLineHeight(t.fontSize, t.lineHeight);
+        const x = t.x + line.x + line.indent;
+        if (line.bullet) {
+          ctx.fillStyle = t.color;
+          ctx.font = spanFont({}, t);
+          ctx.fillText(BULLET, t.x + line.x + t.fontSize * BULLET_OFFSET, y);
+        }
+        for (const run of line.runs) {
+          if (run.span.code) {
+            ctx.fillStyle = TEXT_CODE_BACKGROUND;
+            ctx.fillRect(x + run.x, y, run.w, t.fontSize + TEXT_LINE_GAP / 2);
+          }
+          ctx.fillStyle = run.span.link ? TEXT_LINK_COLOR : t.color;
+          ctx.font = spanFont(run.span, t);
+          ctx.fillText(run.text, x + run.x, y);
+          const { offsets, thickness } = textDecorations(run.span, t.fontSize);
+          for (const offset of offsets) {
+            ctx.fillRect(x + run.x, y + offset - thickness / 2, run.w, thickness);
+          }
+        }
+      });
+    }
+
+    if (item.type === "image") {
+      ctx.globalCompositeOperation = "source-over";
+      options.drawImage(ctx, item.data);
+    }
+
+    if (item.type === "sticky") {
+      const n = item.data;
+      ctx.globalCompositeOperation = "source-over";
+      // Shadows are specified in device pixels, not affected by the
+      // transform, so they are scaled here to stay the same on the board.
+      // Contexts without getTransform (PDF) don't draw shadows anyway.
+      const scale =
+        "getTransform" in ctx && typeof ctx.getTransform === "function" ? ctx.getTransform().a : 1;
+      ctx.save();
+      ctx.shadowColor = STICKY_SHADOW.color;
+      ctx.shadowBlur = STICKY_SHADOW.blur * scale;
+      ctx.shadowOffsetY = STICKY_SHADOW.offsetY * scale;
+      ctx.fillStyle = n.color;
+      ctx.fillRect(n.x, n.y, n.size, n.size);
+      ctx.restore();
+
+      const { fontSize, lines } = stickyTextLayout(n.text, n.size);
+      ctx.fillStyle = STICKY_TEXT_COLOR;
+      ctx.font = `500 ${fontSize}px ${TEXT_FONT_STACK}`;
+      ctx.textBaseline = "top";
+      for (let i = 0; i < lines.length; i++) {
+        ctx.fillText(
+          lines[i],
+          n.x + STICKY_PADDING,
+          n.y + STICKY_PADDING + i * textLineHeight(fontSize),
+        );
+      }
+    }
+
+    if (item.type === "connector") {
+      const c = item.data;
+      ctx.globalCompositeOperation = "source-over";
+      ctx.lineCap = "round";
+      ctx.lineJoin = "round";
+      ctx.lineWidth = c.strokeWidth;
+      ctx.strokeStyle = c.color;
+      ctx.fillStyle = c.color;
+
+      const line = connectorLine(c);
+      const [first, ...rest] = line.points;
+      ctx.beginPath();
+      ctx.moveTo(first.x, first.y);
+      if (line.kind === "curve") {
+        const [c1, c2, end] = rest;
+        ctx.bezierCurveTo(c1.x, c1.y, c2.x, c2.y, end.x, end.y);
+      } else {
+        for (const p of rest) ctx.lineTo(p.x, p.y);
+      }
+      ctx.stroke();
+
+      for (const head of connectorArrowheads(c)) {
+        ctx.beginPath();
+        ctx.moveTo(head[0].x, head[0].y);
+        for (const p of head.slice(1)) ctx.lineTo(p.x, p.y);
+        ctx.closePath();
+        ctx.fill();
+      }
+    }
+  }
+}
@@ -0,0 +1,290 @@
+import { TEXT_CODE_FONT_STACK, TEXT_FONT_STACK } from "@/lib/text-layout";
+
+// Formatted text: a list of paragraphs, each a run of styled spans. A text
+// item keeps its plain `text` next to it, so anything that only needs the
+// words (and boards saved before formatting existed) can ignore the spans.
+
+export type TextSpan = {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  link?: string;
+};
+
+export type RichParagraph = { bullet?: boolean; spans: TextSpan[] };
+
+type Marks = Omit<TextSpan, "text">;
+
+const MARK_KEYS = ["bold", "italic", "underline", "strike", "code", "link"] as const;
+
+function sameMarks(a: Marks, b: Marks) {
+  return MARK_KEYS.every((k) => a[k] === b[k]);
+}
+
+export function plainParagraphs(text: string): RichParagraph[] {
+  return text.split("\n").map((line) => ({ spans: line ? [{ text: line }] : [] }));
+}
+
+export function richPlainText(paragraphs: RichParagraph[]): string {
+  return paragraphs.map((p) => p.spans.map((s) => s.text).join("")).join("\n");
+}
+
+// True when the paragraphs carry no formatting at all, so the plain text
+// says everything about them.
+export function isPlainRich(paragraphs: RichParagraph[]): boolean {
+  return paragraphs.every(
+    (p) => !p.bullet && p.spans.every((s) => MARK_KEYS.every((k) => s[k] === undefined)),
+  );
+}
+
+// Links are only kept when they go somewhere a browser can safely open.
+export function safeHref(href: string): string | null {
+  const trimmed = href.trim();
+  if (!trimmed) return null;
+  const withScheme = /^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  try {
+    const url = new URL(withScheme);
+    return ["http:", "https:", "mailto:"].includes(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function isMonospace(family: string) {
+  return /mono|courier|consolas|menlo/i.test(family);
+}
+
+// Marks an element adds to (or, for fonts, takes from) its contents, both
+// for the tags the editor's formatting commands produce and for inline
+// styles some browsers write instead.
+function elementMarks(el: HTMLElement, marks: Marks): Marks {
+  const next = { ...marks };
+  switch (el.tagName) {
+    case "B":
+    case "STRONG":
+      next.bold = true;
+      break;
+    case "I":
+    case "EM":
+      next.italic = true;
+      break;
+    case "U":
+      next.underline = true;
+      break;
+    case "S":
+    case "STRIKE":
+    case "DEL":
+      next.strike = true;
+      break;
+    case "CODE":
+      next.code = true;
+      break;
+    case "FONT": {
+      const face = el.getAttribute("face");
+      if (face) next.code = isMonospace(face) || undefined;
+      break;
+    }
+    case "A": {
+      const href = safeHref(el.getAttribute("href") ?? "");
+      if (href) next.link = href;
+      break;
+    }
+  }
+  const style = el.style;
+  if (style.fontWeight === "bold" || Number(style.fontWeight) >= 600) next.bold = true;
+  if (style.fontWeight === "normal") next.bold = undefined;
+  if (style.fontStyle === "italic") next.italic = true;
+  if (style.textDecorationLine.includes("underline")) next.underline = true;
+  if (style.textDecorationLine.includes("line-through")) next.strike = true;
+  if (style.fontFamily) next.code = isMonospace(style.fontFamily) || undefined;
+  return next;
+}
+
+const BLOCK_TAGS = new Set(["DIV", "P", "LI", "UL", "OL"]);
+
+// Reads the editor's DOM back into paragraphs. Line breaks come from <br>s
+// and block elements the way contentEditable produces them, list items
+// become bullets.
+export function readRichText(root: HTMLElement): RichParagraph[] {
+  const paragraphs: RichParagraph[] = [{ spans: [] }];
+  // Set after a <br> or a block: the next text starts a new paragraph.
+  let pendingBreak = false;
+
+  const current = () => paragraphs[paragraphs.length - 1];
+  const startBlock = (bullet: boolean) => {
+    if (pendingBreak || current().spans.length > 0) paragraphs.push({ spans: [] });
+    if (bullet) current().bullet = true;
+    pendingBreak = false;
+  };
+  const append = (text: string, marks: Marks) => {
+    if (!text) return;
+    if (pendingBreak) {
+      paragraphs.push({ spans: [] });
+      pendingBreak = false;
+    }
+    const spans = current().spans;
+    const last = spans[spans.length - 1];
+    if (last && sameMarks(last, marks)) last.text += text;
+    else spans.push({ text, ...marks });
+  };
+
+  const walk = (node: Node, marks: Marks) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      append((node.textContent ?? "").replace(/\u00A0/g, " ").replace(/\u200B/g, ""), marks);
+      return;
+    }
+    if (!(node instanceof HTMLElement)) return;
+    if (node.tagName === "BR") {
+      if (pendingBreak) paragraphs.push({ spans: [] });
+      pendingBreak = true;
+      return;
+    }
+    const block = BLOCK_TAGS.has(node.tagName);
+    const list = node.tagName === "UL" || node.tagName === "OL";
+    if (block && !list) startBlock(node.tagName === "LI");
+    const inner = elementMarks(node, marks);
+    node.childNodes.forEach((child) => walk(child, inner));
+    if (block) pendingBreak = true;
+  };
+
+  root.childNodes.forEach((child) => walk(child, {}));
+  return paragraphs.map((p) => {
+    // Drop unset marks so stored spans only name the marks they have.
+    const spans = p.spans.map(
+      (s) => Object.fromEntries(Object.entries(s).filter(([, v]) => v !== undefined)) as TextSpan,
+    );
+    return p.bullet ? { bullet: true, spans } : { spans };
+  });
+}
+
+function spanNode(span: TextSpan): Node {
+  let node: Node = document.createTextNode(span.text);
+  const wrap = (tag: string) => {
+    const el = document.createElement(tag);
+    el.appendChild(node);
+    node = el;
+    return el;
+  };
+  if (span.code) wrap("font").setAttribute("face", TEXT_CODE_FONT_STACK);
+  if (span.bold) wrap("b");
+  if (span.italic) wrap("i");
+  if (span.underline) wrap("u");
+  if (span.strike) wrap("s");
+  const href = span.link && safeHref(span.link);
+  if (href) wrap("a").setAttribute("href", href);
+  return node;
+}
+
+// Builds the editor's DOM for the paragraphs, in the shape the browser's
+// own editing commands produce, so editing it keeps the same structure.
+export function richTextFragment(paragraphs: RichParagraph[]): DocumentFragment {
+  const fragment = document.createDocumentFragment();
+  let list: HTMLElement | null = null;
+  for (const p of paragraphs) {
+    const line = document.createElement(p.bullet ? "li" : "div");
+    if (p.spans.length === 0) line.appendChild(document.createElement("br"));
+    for (const span of p.spans) line.appendChild(spanNode(span));
+    if (p.bullet) {
+      if (!list) {
+        list = document.createElement("ul");
+        fragment.appendChild(list);
+      }
+      list.appendChild(line);
+    } else {
+      list = null;
+      fragment.appendChild(line);
+    }
+  }
+  return fragment;
+}
+
+// Drops trailing blank lines and spaces, as committing plain text does.
+export function trimRichEnd(paragraphs: RichParagraph[]): RichParagraph[] {
+  const out = paragraphs.map((p) => ({ ...p, spans: p.spans.slice() }));
+  while (out.length > 1 && !richPlainText(out.slice(-1)).trim()) out.pop();
+  const spans = out[out.length - 1].spans;
+  while (spans.length > 0) {
+    const last = spans[spans.length - 1];
+    const text = last.text.replace(/\s+$/, "");
+    if (text) {
+      spans[spans.length - 1] = { ...last, text };
+      break;
+    }
+    spans.pop();
+  }
+  return out;
+}
+
+export type TextFormat = "bold" | "italic" | "underline" | "strike" | "code" | "bullet" | "link";
+
+const COMMANDS: Partial<Record<TextFormat, string>> = {
+  bold: "bold",
+  italic: "italic",
+  underline: "underline",
+  strike: "strikeThrough",
+  bullet: "insertUnorderedList",
+};
+
+function selectedLink(): HTMLAnchorElement | null {
+  const node = window.getSelection()?.anchorNode;
+  const el = node instanceof HTMLElement ? node : node?.parentElement;
+  return el?.closest("a") ?? null;
+}
+
+// The formats at the caret or selection in the focused editor.
+export function activeTextFormats(): Set<TextFormat> {
+  const active = new Set<TextFormat>();
+  for (const [format, command] of Object.entries(COMMANDS)) {
+    if (document.queryCommandState(command)) active.add(format as TextFormat);
+  }
+  if (isMonospace(document.queryCommandValue("fontName"))) active.add("code");
+  if (selectedLink()) active.add("link");
+  return active;
+}
+
+export function selectedLinkHref(): string {
+  return selectedLink()?.getAttribute("href") ?? "";
+}
+
+// Toggles a format on the selection in the focused editor through the
+// browser's editing commands, so it lands on the undo stack like typing.
+// Code is a monospace font; a link is set to `href`, or removed when that
+// is empty or unsafe.
+export function applyTextFormat(format: TextFormat, href = "") {
+  const command = COMMANDS[format];
+  if (command) {
+    document.execCommand(command);
+    return;
+  }
+  if (format === "code") {
+    const on = isMonospace(document.queryCommandValue("fontName"));
+    document.execCommand("fontName", false, on ? TEXT_FONT_STACK : TEXT_CODE_FONT_STACK);
+    return;
+  }
+  const selection = window.getSelection();
+  const link = selectedLink();
+  if (selection?.isCollapsed && link) {
+    // A caret inside a link edits the whole link.
+    const range = document.createRange();
+    range.selectNodeContents(link);
+    selection.removeAllRanges();
+    selection.addRange(range);
+  }
+  const url = safeHref(href);
+  if (!url) {
+    document.execCommand("unlink");
+    return;
+  }
+  if (selection?.isCollapsed) {
+    // Nothing selected to link: insert the address itself as the link.
+    const a = document.createElement("a");
+    a.href = url;
+    a.textContent = href.trim();
+    document.execCommand("insertHTML", false, a.outerHTML);
+    return;
+  }
+  document.execCommand("createLink", false, url);
+}
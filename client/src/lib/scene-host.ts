@@ -0,0 +1,200 @@
+import type { BoardItem } from "@/pages/whiteboard";
+import { layerContext } from "@/lib/canvas-layer";
+import {
+  SceneRenderer,
+  diffItems,
+  type SceneFrame,
+  type SceneMessage,
+  type SceneReply,
+} from "@/lib/scene-renderer";
+
+async function decodeImage(src: string): Promise<HTMLImageElement | null> {
+  const img = new Image();
+  img.src = src;
+  try {
+    await img.decode();
+    return img;
+  } catch {
+    return null;
+  }
+}
+
+// Canvases whose control went to a worker. They can't be drawn on from the
+// page again, nor handed to a second worker.
+const transferred = new WeakSet<HTMLCanvasElement>();
+// Set once a worker has failed to start or crashed; later hosts don't retry.
+let workersFailed = false;
+
+// The page's side of the scene renderer. Painting moves to a worker when the
+// canvas can be transferred to one; otherwise the renderer runs right here.
+// Either way the page only sends item diffs and frames.
+//
+// The canvas is only transferred once the worker reports it is ready, so a
+// worker that fails to load leaves it untouched for the page to paint on. A
+// worker that fails after that takes the canvas with it: `onCanvasLost` asks
+// for a fresh element, and the host created for it paints on the page.
+export class SceneHost {
+  private worker: Worker | null = null;
+  private ready = false;
+  private renderer: SceneRenderer | null = null;
+  private sent: BoardItem[] = [];
+  private frame: SceneFrame | null = null;
+  private snapshots = new Map<number, (png: Blob | null) => void>();
+  private nextSnapshot = 0;
+
+  constructor(
+    private readonly canvas: HTMLCanvasElement,
+    private readonly onCanvasLost: () => void,
+  ) {
+    if (transferred.has(canvas)) {
+      onCanvasLost();
+      return;
+    }
+    if (!workersFailed && typeof canvas.transferControlToOffscreen === "function") {
+      try {
+        const worker = new Worker(new URL("./scene-worker.ts", import.meta.url), {
+          type: "module",
+        });
+        worker.onmessage = (event: MessageEvent<SceneReply>) => this.onReply(event.data);
+        worker.onerror = () => this.fail();
+        worker.onmessageerror = () => this.fail();
+        this.worker = worker;
+        return;
+      } catch {
+        workersFailed = true;
+      }
+    }
+    this.paintOnPage();
+  }
+
+  setItems(items: BoardItem[]) {
+    if (items === this.sent) return;
+    const diff = diffItems(this.sent, items);
+    this.sent = items;
+    this.post({ type: "items", diff });
+  }
+
+  setFrame(frame: SceneFrame) {
+    this.frame = frame;
+    this.post({ type: "frame", frame });
+  }
+
+  fontsChanged() {
+    this.post({ type: "fonts" });
+  }
+
+  // A PNG of what the canvas currently shows.
+  snapshot(): Promise<Blob | null> {
+    if (!this.worker) return this.renderer?.snapshot() ?? Promise.resolve(null);
+    // Requests made before the worker is ready are sent once it is.
+    const id = this.nextSnapshot++;
+    return new Promise((resolve) => {
+      this.snapshots.set(id, resolve);
+      this.post({ type: "snapshot", id });
+    });
+  }
+
+  dispose() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.renderer = null;
+    this.snapshots.forEach((resolve) => resolve(null));
+    this.snapshots.clear();
+  }
+
+  // Hands the canvas to the ready worker, then catches it up on everything
+  // the page sent in the meantime.
+  private start() {
+    if (!this.worker) return;
+    try {
+      const offscreen = this.canvas.transferControlToOffscreen();
+      transferred.add(this.canvas);
+      const init: SceneMessage = { type: "init", canvas: offscreen, stylesheets: stylesheetUrls() };
+      this.worker.postMessage(init, [offscreen]);
+    } catch {
+      // Only a canvas that is already someone else's refuses the transfer.
+      this.worker.terminate();
+      this.worker = null;
+      this.onCanvasLost();
+      return;
+    }
+    this.ready = true;
+    this.catchUp();
+    this.snapshots.forEach((_, id) => this.post({ type: "snapshot", id }));
+  }
+
+  private fail() {
+    if (!this.worker) return;
+    workersFailed = true;
+    this.worker.terminate();
+    this.worker = null;
+    if (this.ready) {
+      this.ready = false;
+      this.snapshots.forEach((resolve) => resolve(null));
+      this.snapshots.clear();
+      this.onCanvasLost();
+      return;
+    }
+    this.paintOnPage();
+  }
+
+  private paintOnPage() {
+    try {
+      layerContext(this.canvas);
+    } catch {
+      // Transferred by an earlier host this module doesn't know about, e.g.
+      // one from before a hot reload.
+      this.onCanvasLost();
+      return;
+    }
+    this.renderer = new SceneRenderer(this.canvas, async (src) => {
+      this.renderer?.imageLoaded(src, await decodeImage(src));
+    });
+    this.catchUp();
+    const renderer = this.renderer;
+    this.snapshots.forEach((resolve) => void renderer.snapshot().then(resolve));
+    this.snapshots.clear();
+  }
+
+  // Brings a renderer that has seen nothing yet up to date.
+  private catchUp() {
+    this.post({ type: "items", diff: diffItems([], this.sent) });
+    if (this.frame) this.post({ type: "frame", frame: this.frame });
+  }
+
+  private onReply(reply: SceneReply) {
+    if (reply.type === "ready") {
+      this.start();
+      return;
+    }
+    if (reply.type === "image") {
+      void this.sendImage(reply.src);
+      return;
+    }
+    this.snapshots.get(reply.id)?.(reply.png);
+    this.snapshots.delete(reply.id);
+  }
+
+  private async sendImage(src: string) {
+    const img = await decodeImage(src);
+    const image = img ? await createImageBitmap(img).catch(() => null) : null;
+    this.post({ type: "image", src, image }, image ? [image] : []);
+  }
+
+  // Messages for a worker that isn't ready yet are dropped; `catchUp` sends
+  // their sum once it is.
+  private post(message: SceneMessage, transfer: Transferable[] = []) {
+    if (this.worker) {
+      if (this.ready) this.worker.postMessage(message, transfer);
+    } else {
+      this.renderer?.handle(message);
+    }
+  }
+}
+
+// Stylesheets that may declare @font-face rules the worker has to repeat.
+function stylesheetUrls() {
+  return Array.from(document.querySelectorAll<HTMLLinkElement>('link[rel="stylesheet"]'))
+    .map((link) => link.href)
+    .filter(Boolean);
+}
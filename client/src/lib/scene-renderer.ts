@@ -0,0 +1,294 @@
+import type { BoardItem } from "@/pages/whiteboard";
+import { createLayer, layerContext, type Context2D, type Layer } from "@/lib/canvas-layer";
+import { PAPER_COLOR } from "@/lib/export-svg";
+import { paintItems } from "@/lib/render-items";
+import { resetExtentCache, type Rect } from "@/lib/spatial-index";
+import { TEXT_FONT_STACK } from "@/lib/text-layout";
+import { TileCache } from "@/lib/tile-cache";
+
+// The board's canvas renderer. It keeps its own copy of the items, fed by
+// diffs, and paints whenever it receives a frame. The same class runs in the
+// scene worker on an OffscreenCanvas or, where that isn't available, on the
+// page (see SceneHost).
+
+const GRID_SIZE = 22;
+const GRID_COLOR = "rgba(45,55,72,0.10)";
+const SELECTION_COLOR = "#3175F1";
+const SELECTION_AREA_FILL = "rgba(49,117,241,0.08)";
+
+// Dashed outline, resize handles and the size pill under the selection, all
+// in board coordinates. `outlines` mark the members of a multi-selection.
+export type SelectionChrome = { rect: Rect; handles: Rect[]; outlines: Rect[]; label: string };
+
+export type SceneFrame = {
+  // CSS pixels of the canvas.
+  width: number;
+  height: number;
+  dpr: number;
+  viewport: { x: number; y: number; zoom: number };
+  // The in-progress stroke or shape, drawn over the tiles.
+  live: BoardItem[];
+  // Ids of items being dragged. They are drawn over the tiles as well, so
+  // moving them doesn't re-render the tiles they pass, except while something
+  // stacked above them overlaps them.
+  lifted: string[];
+  // Left out of the picture, e.g. text while its editor is open.
+  hiddenId: string | null;
+  selection: SelectionChrome | null;
+  // Marquee or lasso being dragged out, as a closed polygon.
+  selectionArea: { x: number; y: number }[] | null;
+};
+
+// What changed between two item arrays. `order` is only sent when ids were
+// added, removed or reordered; otherwise the previous order still holds.
+export type ItemDiff = {
+  upserts: BoardItem[];
+  removed: string[];
+  order: string[] | null;
+};
+
+export type SceneMessage =
+  | { type: "init"; canvas: OffscreenCanvas; stylesheets: string[] }
+  | { type: "items"; diff: ItemDiff }
+  | { type: "frame"; frame: SceneFrame }
+  | { type: "fonts" }
+  | { type: "image"; src: string; image: ImageBitmap | null }
+  | { type: "snapshot"; id: number };
+
+// The worker says when it has loaded and can take the canvas, asks the page
+// to decode images, since workers can't decode SVG, and answers snapshot
+// requests with a PNG of the last frame.
+export type SceneReply =
+  | { type: "ready" }
+  | { type: "image"; src: string }
+  | { type: "snapshot"; id: number; png: Blob | null };
+
+export function diffItems(prev: BoardItem[], next: BoardItem[]): ItemDiff {
+  const prevById = new Map(prev.map((it) => [it.data.id, it]));
+  const nextIds = new Set<string>();
+  const upserts: BoardItem[] = [];
+  for (const it of next) {
+    nextIds.add(it.data.id);
+    if (prevById.get(it.data.id) !== it) upserts.push(it);
+  }
+  const removed = prev.filter((it) => !nextIds.has(it.data.id)).map((it) => it.data.id);
+  const reordered =
+    prev.length !== next.length || next.some((it, i) => prev[i].data.id !== it.data.id);
+  return { upserts, removed, order: reordered ? next.map((it) => it.data.id) : null };
+}
+
+export class SceneRenderer {
+  private items: BoardItem[] = [];
+  private byId = new Map<string, BoardItem>();
+  private frame: SceneFrame | null = null;
+  private paintQueued = false;
+  private layer: Layer | null = null;
+  // null while an image is being decoded or if it failed to.
+  private images = new Map<string, CanvasImageSource | null>();
+  private tiles = new TileCache((ctx, list) => this.paintList(ctx, list));
+
+  constructor(
+    private readonly canvas: Layer,
+    private readonly requestImage: (src: string) => void,
+  ) {}
+
+  handle(message: SceneMessage) {
+    switch (message.type) {
+      case "items":
+        this.applyDiff(message.diff);
+        break;
+      case "frame":
+        this.frame = message.frame;
+        this.requestPaint();
+        break;
+      case "fonts":
+        this.fontsChanged();
+        this.requestPaint();
+        break;
+      case "image":
+        this.imageLoaded(message.src, message.image);
+        break;
+    }
+  }
+
+  // The canvas as of the latest frame, as a PNG.
+  snapshot(): Promise<Blob | null> {
+    if (this.paintQueued) this.paint();
+    const canvas = this.canvas;
+    if ("convertToBlob" in canvas) {
+      return canvas.convertToBlob({ type: "image/png" }).catch(() => null);
+    }
+    return new Promise((resolve) => canvas.toBlob(resolve, "image/png"));
+  }
+
+  applyDiff({ upserts, removed, order }: ItemDiff) {
+    for (const it of upserts) this.byId.set(it.data.id, it);
+    for (const id of removed) this.byId.delete(id);
+    this.items = (order ?? this.items.map((it) => it.data.id)).map((id) => this.byId.get(id)!);
+  }
+
+  imageLoaded(src: string, image: CanvasImageSource | null) {
+    this.images.set(src, image);
+    if (!image) return;
+    this.tiles.invalidateWhere((it) => it.type === "image" && it.data.src === src);
+    this.requestPaint();
+  }
+
+  // Text extents and glyphs change once a web font arrives.
+  fontsChanged() {
+    resetExtentCache();
+    this.tiles.clear();
+  }
+
+  // Frames can arrive faster than they are painted, e.g. while a zoom
+  // re-renders tiles; only the latest one is painted, once per display frame.
+  requestPaint() {
+    if (this.paintQueued) return;
+    this.paintQueued = true;
+    const run = () => {
+      if (this.paintQueued) this.paint();
+    };
+    if (typeof requestAnimationFrame === "function") requestAnimationFrame(run);
+    else setTimeout(run, 0);
+  }
+
+  paint() {
+    this.paintQueued = false;
+    const frame = this.frame;
+    if (!frame) return;
+    const { dpr, viewport } = frame;
+    const pw = Math.max(1, Math.floor(frame.width * dpr));
+    const ph = Math.max(1, Math.floor(frame.height * dpr));
+    if (this.canvas.width !== pw || this.canvas.height !== ph) {
+      this.canvas.width = pw;
+      this.canvas.height = ph;
+    }
+    // Content layer: tiles plus live items. It is composited over the grid
+    // so eraser strokes cut through to the paper.
+    if (!this.layer) this.layer = createLayer(pw, ph);
+    if (this.layer.width !== pw || this.layer.height !== ph) {
+      this.layer.width = pw;
+      this.layer.height = ph;
+    }
+    const ctx = layerContext(this.canvas);
+    const contentCtx = layerContext(this.layer);
+    if (!ctx || !contentCtx) return;
+
+    contentCtx.save();
+    contentCtx.clearRect(0, 0, pw, ph);
+
+    // The board origin is snapped to a device pixel so tiles blit without
+    // resampling.
+    this.tiles.setItems(this.items);
+    const dragged = new Set(frame.lifted);
+    const lifted = frame.lifted.filter((id) => {
+      const item = this.byId.get(id);
+      return item !== undefined && !this.tiles.coveredFromAbove(item, dragged);
+    });
+    this.tiles.setHidden(frame.hiddenId ? [...lifted, frame.hiddenId] : lifted);
+    const scale = viewport.zoom * dpr;
+    const originX = Math.round(viewport.x * dpr);
+    const originY = Math.round(viewport.y * dpr);
+    this.tiles.draw(contentCtx, { originX, originY, scale, width: pw, height: ph });
+
+    contentCtx.setTransform(scale, 0, 0, scale, originX, originY);
+    const liftedIds = new Set(lifted);
+    const liftedItems =
+      liftedIds.size > 0 ? this.items.filter((it) => liftedIds.has(it.data.id)) : [];
+    this.paintList(contentCtx, [...liftedItems, ...frame.live]);
+
+    const sel = frame.selection;
+    if (sel) {
+      const z = viewport.zoom;
+      contentCtx.globalCompositeOperation = "source-over";
+      contentCtx.strokeStyle = SELECTION_COLOR;
+      contentCtx.lineWidth = 1.5 / z;
+      contentCtx.setLineDash([6 / z, 4 / z]);
+      contentCtx.strokeRect(sel.rect.x, sel.rect.y, sel.rect.w, sel.rect.h);
+      contentCtx.setLineDash([]);
+
+      contentCtx.lineWidth = 1 / z;
+      for (const r of sel.outlines) contentCtx.strokeRect(r.x, r.y, r.w, r.h);
+
+      contentCtx.lineWidth = 1 / z;
+      for (const r of sel.handles) {
+        contentCtx.fillStyle = "#ffffff";
+        contentCtx.fillRect(r.x, r.y, r.w, r.h);
+        contentCtx.strokeStyle = SELECTION_COLOR;
+        contentCtx.strokeRect(r.x, r.y, r.w, r.h);
+      }
+
+      const pillFontSize = 11 / z;
+      contentCtx.font = `500 ${pillFontSize}px ${TEXT_FONT_STACK}`;
+      contentCtx.textBaseline = "top";
+      const padX = 6 / z;
+      const padY = 3 / z;
+      const textW = contentCtx.measureText(sel.label).width;
+      const boxW = textW + padX * 2;
+      const boxH = pillFontSize + padY * 2;
+      const labelX = sel.rect.x + sel.rect.w / 2 - boxW / 2;
+      const labelY = sel.rect.y + sel.rect.h + 8 / z;
+      contentCtx.fillStyle = SELECTION_COLOR;
+      contentCtx.fillRect(labelX, labelY, boxW, boxH);
+      contentCtx.fillStyle = "#ffffff";
+      contentCtx.fillText(sel.label, labelX + padX, labelY + padY);
+    }
+
+    const area = frame.selectionArea;
+    if (area && area.length > 1) {
+      const z = viewport.zoom;
+      contentCtx.globalCompositeOperation = "source-over";
+      contentCtx.beginPath();
+      contentCtx.moveTo(area[0].x, area[0].y);
+      for (const p of area.slice(1)) contentCtx.lineTo(p.x, p.y);
+      contentCtx.closePath();
+      contentCtx.fillStyle = SELECTION_AREA_FILL;
+      contentCtx.fill();
+      contentCtx.strokeStyle = SELECTION_COLOR;
+      contentCtx.lineWidth = 1 / z;
+      contentCtx.setLineDash([4 / z, 3 / z]);
+      contentCtx.stroke();
+      contentCtx.setLineDash([]);
+    }
+    contentCtx.restore();
+
+    // ===== DRAW MAIN CANVAS (background + grid + content) =====
+    const w = frame.width;
+    const h = frame.height;
+    ctx.save();
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, w, h);
+    ctx.fillStyle = PAPER_COLOR;
+    ctx.fillRect(0, 0, w, h);
+
+    const step = GRID_SIZE * viewport.zoom;
+    ctx.beginPath();
+    ctx.strokeStyle = GRID_COLOR;
+    ctx.lineWidth = 1;
+    for (let x = viewport.x % step; x < w; x += step) {
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, h);
+    }
+    for (let y = viewport.y % step; y < h; y += step) {
+      ctx.moveTo(0, y);
+      ctx.lineTo(w, y);
+    }
+    ctx.stroke();
+
+    ctx.drawImage(this.layer, 0, 0, w, h);
+    ctx.restore();
+  }
+
+  private paintList(ctx: Context2D, list: BoardItem[]) {
+    paintItems(ctx, list, {
+      drawImage: (ctx, im) => {
+        if (!this.images.has(im.src)) {
+          this.images.set(im.src, null);
+          this.requestImage(im.src);
+        }
+        const image = this.images.get(im.src);
+        if (image) ctx.drawImage(image, im.x, im.y, im.width, im.height);
+      },
+    });
+  }
+}
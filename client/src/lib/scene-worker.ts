@@ -0,0 +1,74 @@
+import { SceneRenderer, type SceneMessage, type SceneReply } from "@/lib/scene-renderer";
+import { TEXT_FONT_STACK } from "@/lib/text-layout";
+
+// Entry point of the scene worker. Once loaded it tells the page it is ready;
+// the page then transfers its canvas in the "init" message, and everything
+// after that is handed to the renderer.
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<SceneMessage>) => void) | null;
+  postMessage(message: SceneReply): void;
+  fonts?: FontFaceSet & { add(face: FontFace): void };
+};
+
+let renderer: SceneRenderer | null = null;
+
+// A worker doesn't see the page's web fonts, so the @font-face rules of the
+// page's stylesheets are registered here again.
+async function loadFonts(stylesheets: string[]) {
+  const fonts = scope.fonts;
+  if (!fonts) return;
+  fonts.addEventListener("loadingdone", () => {
+    renderer?.fontsChanged();
+    renderer?.requestPaint();
+  });
+  for (const href of stylesheets) {
+    let css: string;
+    try {
+      css = await (await fetch(href)).text();
+    } catch {
+      continue;
+    }
+    for (const [, block] of Array.from(css.matchAll(/@font-face\s*{([^}]*)}/g))) {
+      const rules = new Map<string, string>();
+      for (const [, name, value] of Array.from(block.matchAll(/([\w-]+)\s*:\s*([^;]+)/g))) {
+        rules.set(name.toLowerCase(), value.trim());
+      }
+      const family = rules.get("font-family")?.replace(/["']/g, "");
+      const src = rules.get("src");
+      if (!family || !src) continue;
+      const absolute = src.replace(
+        /url\((["']?)([^"')]+)\1\)/g,
+        (_, quote: string, url: string) => `url(${quote}${new URL(url, href)}${quote})`,
+      );
+      fonts.add(
+        new FontFace(family, absolute, {
+          style: rules.get("font-style"),
+          weight: rules.get("font-weight"),
+          unicodeRange: rules.get("unicode-range"),
+        }),
+      );
+    }
+  }
+  // Faces load lazily; ask for the one board text uses right away.
+  await fonts.load(`500 16px ${TEXT_FONT_STACK}`).catch(() => []);
+}
+
+scope.onmessage = (event) => {
+  const message = event.data;
+  if (message.type === "init") {
+    renderer = new SceneRenderer(message.canvas, (src) => scope.postMessage({ type: "image", src }));
+    void loadFonts(message.stylesheets);
+    return;
+  }
+  if (message.type === "snapshot") {
+    const { id } = message;
+    void (renderer?.snapshot() ?? Promise.resolve(null)).then((png) =>
+      scope.postMessage({ type: "snapshot", id, png }),
+    );
+    return;
+  }
+  renderer?.handle(message);
+};
+
+scope.postMessage({ type: "ready" });
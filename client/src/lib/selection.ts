@@ -0,0 +1,87 @@
+import type { BoardItem } from "@/pages/whiteboard";
+import { connectorPolyline } from "@/lib/connectors";
+import { itemExtent, type Rect } from "@/lib/spatial-index";
+import { stickyRect } from "@/lib/sticky-notes";
+
+type Point = { x: number; y: number };
+
+export function distToSegment(p: Point, a: Point, b: Point) {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+// What counts as the item for clicks and selection: a note's square without
+// its shadow, otherwise everything it paints.
+function itemArea(item: BoardItem): Rect {
+  return item.type === "sticky" ? stickyRect(item.data) : itemExtent(item);
+}
+
+function nearPolyline(p: Point, points: Point[], reach: number) {
+  for (let i = 1; i < points.length; i++) {
+    if (distToSegment(p, points[i - 1], points[i]) <= reach) return true;
+  }
+  return points.length === 1 && Math.hypot(p.x - points[0].x, p.y - points[0].y) <= reach;
+}
+
+// Whether a click at `p` lands on the item. Strokes and connectors are hit
+// along their line, not anywhere in their bounding box, so a large scribble
+// doesn't swallow clicks meant for what's inside it. `tolerance` is in board
+// units.
+export function hitsItem(p: Point, item: BoardItem, tolerance: number) {
+  if (item.type === "stroke") {
+    return nearPolyline(p, item.data.points, item.data.size / 2 + tolerance);
+  }
+  if (item.type === "connector") {
+    return nearPolyline(p, connectorPolyline(item.data), item.data.strokeWidth / 2 + tolerance);
+  }
+  const r = itemArea(item);
+  return p.x >= r.x && p.x <= r.x + r.w && p.y >= r.y && p.y <= r.y + r.h;
+}
+
+export function rectPolygon(a: Point, b: Point): Point[] {
+  return [
+    { x: a.x, y: a.y },
+    { x: b.x, y: a.y },
+    { x: b.x, y: b.y },
+    { x: a.x, y: b.y },
+  ];
+}
+
+export function polygonBounds(polygon: Point[]): Rect {
+  const xs = polygon.map((p) => p.x);
+  const ys = polygon.map((p) => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, w: Math.max(...xs) - x, h: Math.max(...ys) - y };
+}
+
+function pointInPolygon(p: Point, polygon: Point[]) {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > p.y !== b.y > p.y && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// An item is inside a marquee or lasso when all of it is: every point of a
+// stroke or connector, or every corner of anything else.
+export function itemInPolygon(item: BoardItem, polygon: Point[]) {
+  if (polygon.length < 3) return false;
+  if (item.type === "stroke") {
+    return item.data.points.length > 0 && item.data.points.every((p) => pointInPolygon(p, polygon));
+  }
+  if (item.type === "connector") {
+    return connectorPolyline(item.data).every((p) => pointInPolygon(p, polygon));
+  }
+  const r = itemArea(item);
+  return rectPolygon({ x: r.x, y: r.y }, { x: r.x + r.w, y: r.y + r.h }).every((p) =>
+    pointInPolygon(p, polygon),
+  );
+}
@@ -0,0 +1,201 @@
+import type { BoardItem } from "@/pages/whiteboard";
+import { arrowSize, connectorPolyline } from "@/lib/connectors";
+import { STICKY_SHADOW_REACH, resetStickyLayoutCache } from "@/lib/sticky-notes";
+import { measureTextItem, resetTextLayoutCache } from "@/lib/text-layout";
+
+export type Rect = { x: number; y: number; w: number; h: number };
+
+let extents = new WeakMap<BoardItem, Rect>();
+
+// Everything an item paints, stroke width included. Items are immutable, so
+// the result is cached per item object and edits naturally miss the cache.
+export function itemExtent(item: BoardItem): Rect {
+  const cached = extents.get(item);
+  if (cached) return cached;
+
+  let extent: Rect;
+  if (item.type === "stroke") {
+    const s = item.data;
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    for (const p of s.points) {
+      minX = Math.min(minX, p.x);
+      minY = Math.min(minY, p.y);
+      maxX = Math.max(maxX, p.x);
+      maxY = Math.max(maxY, p.y);
+    }
+    const r = s.size / 2;
+    extent =
+      s.points.length === 0
+        ? { x: 0, y: 0, w: 0, h: 0 }
+        : { x: minX - r, y: minY - r, w: maxX - minX + s.size, h: maxY - minY + s.size };
+  } else if (item.type === "shape") {
+    const sh = item.data;
+    const r = sh.strokeWidth / 2;
+    extent = {
+      x: Math.min(sh.x, sh.x + sh.w) - r,
+      y: Math.min(sh.y, sh.y + sh.h) - r,
+      w: Math.abs(sh.w) + sh.strokeWidth,
+      h: Math.abs(sh.h) + sh.strokeWidth,
+    };
+  } else if (item.type === "text") {
+    const t = item.data;
+    const { w, h } = measureTextItem(t);
+    extent = { x: t.x, y: t.y, w, h };
+  } else if (item.type === "sticky") {
+    const n = item.data;
+    const reach = STICKY_SHADOW_REACH;
+    extent = {
+      x: n.x - reach.side,
+      y: n.y - reach.top,
+      w: n.size + reach.side * 2,
+      h: n.size + reach.top + reach.bottom,
+    };
+  } else if (item.type === "connector") {
+    const c = item.data;
+    const points = connectorPolyline(c);
+    // Arrowheads are wider than the line.
+    const r = Math.max(c.strokeWidth / 2, c.startArrow || c.endArrow ? arrowSize(c) / 2 : 0);
+    const xs = points.map((p) => p.x);
+    const ys = points.map((p) => p.y);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    extent = {
+      x: minX - r,
+      y: minY - r,
+      w: Math.max(...xs) - minX + r * 2,
+      h: Math.max(...ys) - minY + r * 2,
+    };
+  } else {
+    const im = item.data;
+    extent = { x: im.x, y: im.y, w: im.width, h: im.height };
+  }
+  extents.set(item, extent);
+  return extent;
+}
+
+// Text extents depend on the font; call once a web font finishes loading.
+export function resetExtentCache() {
+  extents = new WeakMap();
+  resetStickyLayoutCache();
+  resetTextLayoutCache();
+}
+
+export function intersects(a: Rect, b: Rect) {
+  return a.x <= b.x + b.w && b.x <= a.x + a.w && a.y <= b.y + b.h && b.y <= a.y + a.h;
+}
+
+const CELL_SIZE = 512;
+// Items spanning more cells than this are kept in one list that every query
+// checks, instead of being registered in hundreds of cells.
+const MAX_CELLS_PER_ITEM = 64;
+
+type Entry = { item: BoardItem; extent: Rect; cells: string[] | null };
+
+// Uniform grid over item extents. `update` takes the board's item array and
+// only re-files items whose object changed. It still walks the whole array,
+// to find those and to renumber the stacking order, but that is a reference
+// check per item: during a drag only the dragged items' extents and cells
+// are recomputed.
+export class SpatialIndex {
+  private items: BoardItem[] | null = null;
+  private entries = new Map<string, Entry>();
+  private cells = new Map<string, Set<string>>();
+  private oversized = new Set<string>();
+  private order = new Map<string, number>();
+
+  update(items: BoardItem[]): this {
+    if (items === this.items) return this;
+    this.items = items;
+    this.order.clear();
+    items.forEach((item, i) => {
+      const id = item.data.id;
+      this.order.set(id, i);
+      const entry = this.entries.get(id);
+      if (entry?.item === item) return;
+      if (entry) this.unlink(id, entry);
+      this.link(id, item);
+    });
+    this.entries.forEach((entry, id) => {
+      if (this.order.has(id)) return;
+      this.unlink(id, entry);
+      this.entries.delete(id);
+    });
+    return this;
+  }
+
+  // Forgets every cached position, e.g. after text metrics changed.
+  reset() {
+    this.items = null;
+    this.entries.clear();
+    this.cells.clear();
+    this.oversized.clear();
+  }
+
+  // Items whose extent meets `rect`, back to front.
+  query(rect: Rect): BoardItem[] {
+    const ids = new Set<string>(this.oversized);
+    const x0 = Math.floor(rect.x / CELL_SIZE);
+    const y0 = Math.floor(rect.y / CELL_SIZE);
+    const x1 = Math.floor((rect.x + rect.w) / CELL_SIZE);
+    const y1 = Math.floor((rect.y + rect.h) / CELL_SIZE);
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) {
+        this.cells.get(`${cx},${cy}`)?.forEach((id) => ids.add(id));
+      }
+    }
+    const hits: Entry[] = [];
+    ids.forEach((id) => {
+      const entry = this.entries.get(id)!;
+      if (intersects(entry.extent, rect)) hits.push(entry);
+    });
+    hits.sort((a, b) => this.order.get(a.item.data.id)! - this.order.get(b.item.data.id)!);
+    return hits.map((e) => e.item);
+  }
+
+  // Items whose extent contains the point, topmost first.
+  at(x: number, y: number): BoardItem[] {
+    return this.query({ x, y, w: 0, h: 0 }).reverse();
+  }
+
+  private link(id: string, item: BoardItem) {
+    const extent = itemExtent(item);
+    const x0 = Math.floor(extent.x / CELL_SIZE);
+    const y0 = Math.floor(extent.y / CELL_SIZE);
+    const x1 = Math.floor((extent.x + extent.w) / CELL_SIZE);
+    const y1 = Math.floor((extent.y + extent.h) / CELL_SIZE);
+    let cells: string[] | null = null;
+    if ((x1 - x0 + 1) * (y1 - y0 + 1) > MAX_CELLS_PER_ITEM) {
+      this.oversized.add(id);
+    } else {
+      cells = [];
+      for (let cx = x0; cx <= x1; cx++) {
+        for (let cy = y0; cy <= y1; cy++) {
+          const key = `${cx},${cy}`;
+          let cell = this.cells.get(key);
+          if (!cell) {
+            cell = new Set();
+            this.cells.set(key, cell);
+          }
+          cell.add(id);
+          cells.push(key);
+        }
+      }
+    }
+    this.entries.set(id, { item, extent, cells });
+  }
+
+  private unlink(id: string, entry: Entry) {
+    if (!entry.cells) {
+      this.oversized.delete(id);
+      return;
+    }
+    for (const key of entry.cells) {
+      const cell = this.cells.get(key)!;
+      cell.delete(id);
+      if (cell.size === 0) this.cells.delete(key);
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import type { BoardItem } from "@/pages/whiteboard";
+import { TEXT_LINE_GAP, textLineHeight, wrapText } from "@/lib/text-layout";
+
+type StickyData = Extract<BoardItem, { type: "sticky" }>["data"];
+
+export const STICKY_DEFAULT_SIZE = 200;
+export const STICKY_MIN_SIZE = 60;
+export const STICKY_PADDING = 16;
+export const STICKY_TEXT_COLOR = "#1F2937";
+const STICKY_MAX_FONT = 28;
+const STICKY_MIN_FONT = 8;
+
+export const STICKY_COLORS = [
+  { name: "Yellow", value: "#FFF3A3" },
+  { name: "Orange", value: "#FFD8B0" },
+  { name: "Pink", value: "#FFCFE0" },
+  { name: "Purple", value: "#E3D7FF" },
+  { name: "Blue", value: "#CBE4FF" },
+  { name: "Green", value: "#CFF2D2" },
+];
+
+// Drop shadow under a note, in board units.
+export const STICKY_SHADOW = { blur: 6, offsetY: 2, color: "rgba(15,23,42,0.18)" };
+// How far the shadow reaches past the note's square on each side.
+export const STICKY_SHADOW_REACH = {
+  side: STICKY_SHADOW.blur,
+  top: Math.max(0, STICKY_SHADOW.blur - STICKY_SHADOW.offsetY),
+  bottom: STICKY_SHADOW.blur + STICKY_SHADOW.offsetY,
+};
+
+export type StickyTextLayout = { fontSize: number; lines: string[] };
+
+let layouts = new Map<string, StickyTextLayout>();
+
+// The largest font at which the note's text, wrapped to the note, still fits
+// inside its padding. Text too long even at the smallest size overflows at
+// the bottom.
+export function stickyTextLayout(text: string, size: number): StickyTextLayout {
+  const key = `${size}\u0000${text}`;
+  const cached = layouts.get(key);
+  if (cached) return cached;
+
+  const inner = Math.max(1, size - STICKY_PADDING * 2);
+  const fits = (fontSize: number) => {
+    const lines = wrapText(text, fontSize, inner);
+    return lines.length * textLineHeight(fontSize) - TEXT_LINE_GAP <= inner ? lines : null;
+  };
+  let lo = STICKY_MIN_FONT;
+  let hi = Math.min(STICKY_MAX_FONT, Math.floor(inner));
+  let layout: StickyTextLayout = { fontSize: lo, lines: wrapText(text, lo, inner) };
+  while (lo <= hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    const lines = fits(mid);
+    if (lines) {
+      layout = { fontSize: mid, lines };
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+
+  if (layouts.size > 500) layouts = new Map();
+  layouts.set(key, layout);
+  return layout;
+}
+
+// Layouts depend on the font; reset together with the extent cache.
+export function resetStickyLayoutCache() {
+  layouts = new Map();
+}
+
+export function stickyRect(n: StickyData) {
+  return { x: n.x, y: n.y, w: n.size, h: n.size };
+}
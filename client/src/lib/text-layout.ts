@@ -0,0 +1,253 @@
+// Text metrics shared by the canvas renderer, the text editor overlay and the
+// exporters, so a text item has the same size everywhere it is drawn.
+
+import { createLayer, layerContext, type Context2D } from "@/lib/canvas-layer";
+import { plainParagraphs, type RichParagraph, type TextSpan } from "@/lib/rich-text";
+
+export const TEXT_LINE_GAP = 6;
+export const TEXT_FONT_STACK = "Inter, ui-sans-serif, system-ui, sans-serif";
+export const TEXT_CODE_FONT_STACK = "ui-monospace, SFMono-Regular, Menlo, Consolas, monospace";
+export const TEXT_LINK_COLOR = "#2563EB";
+export const TEXT_CODE_BACKGROUND = "rgba(15,23,42,0.08)";
+export const TEXT_MIN_FONT = 8;
+export const TEXT_MAX_FONT = 200;
+export const TEXT_DEFAULT_WEIGHT = 500;
+export const TEXT_MIN_LINE_HEIGHT = 0.9;
+export const TEXT_MAX_LINE_HEIGHT = 2.5;
+
+export type TextAlign = "left" | "center" | "right";
+export type TextFont = "sans" | "serif" | "mono" | "hand";
+
+export const TEXT_FONTS: { value: TextFont; label: string; stack: string }[] = [
+  { value: "sans", label: "Sans", stack: TEXT_FONT_STACK },
+  { value: "serif", label: "Serif", stack: '"Source Serif 4", Georgia, "Times New Roman", serif' },
+  { value: "mono", label: "Mono", stack: TEXT_CODE_FONT_STACK },
+  { value: "hand", label: "Handwritten", stack: 'Caveat, "Segoe Print", "Comic Sans MS", cursive' },
+];
+
+export const TEXT_WEIGHTS = [
+  { value: 400, label: "Regular" },
+  { value: 500, label: "Medium" },
+  { value: 600, label: "Semibold" },
+  { value: 700, label: "Bold" },
+];
+
+// How a text item is set beyond its size. Unset fields mean Inter at
+// TEXT_DEFAULT_WEIGHT, left-aligned, with TEXT_LINE_GAP between lines.
+export type TextStyle = {
+  align?: TextAlign;
+  font?: TextFont;
+  weight?: number;
+  // Line height as a multiple of the font size.
+  lineHeight?: number;
+};
+
+export function textFontStack(font: TextFont | undefined) {
+  return TEXT_FONTS.find((f) => f.value === font)?.stack ?? TEXT_FONT_STACK;
+}
+
+// Bold spans stand out from whatever weight the item is set in.
+export function boldWeight(weight = TEXT_DEFAULT_WEIGHT) {
+  return weight >= 600 ? 800 : 700;
+}
+
+export function textLineHeight(fontSize: number, lineHeight?: number) {
+  return lineHeight === undefined ? fontSize + TEXT_LINE_GAP : fontSize * lineHeight;
+}
+
+// CSS centers glyphs in their line box, while the canvas draws them from the
+// top of each line; the editor is shifted up by this much to line up.
+export function textHalfLeading(fontSize: number, lineHeight?: number) {
+  return (textLineHeight(fontSize, lineHeight) - fontSize) / 2;
+}
+
+let _textMeasureCtx: Context2D | null = null;
+function getMeasureCtx() {
+  if (_textMeasureCtx) return _textMeasureCtx;
+  _textMeasureCtx = layerContext(createLayer(1, 1));
+  return _textMeasureCtx;
+}
+
+export type TextLayoutInput = TextStyle & {
+  text: string;
+  fontSize: number;
+  width?: number;
+  rich?: RichParagraph[];
+};
+
+// A piece of a line drawn in one style; `x` is from the start of the line.
+export type TextRun = { text: string; x: number; w: number; span: TextSpan };
+
+// `x` is where the line starts after alignment, `indent` where its runs
+// start from there; `bullet` is set on the first line of a bulleted
+// paragraph.
+export type TextLine = { runs: TextRun[]; x: number; indent: number; bullet: boolean };
+
+export type TextLayout = { lines: TextLine[]; w: number; h: number };
+
+// The font for a span of `t`, in the shorthand canvas and CSS both accept.
+export function spanFont(span: Omit<TextSpan, "text">, t: TextLayoutInput) {
+  const family = span.code ? TEXT_CODE_FONT_STACK : textFontStack(t.font);
+  const weight = span.bold ? boldWeight(t.weight) : (t.weight ?? TEXT_DEFAULT_WEIGHT);
+  return `${span.italic ? "italic " : ""}${weight} ${t.fontSize}px ${family}`;
+}
+
+// Bullets hang in the indent, as the editor's list items draw them.
+// BULLET_OFFSET places the mark, in ems from the start of the line.
+export const BULLET = "\u2022";
+export const BULLET_OFFSET = 0.4;
+
+export function bulletIndent(fontSize: number) {
+  return fontSize * 1.25;
+}
+
+// Offsets from the top of a line to its underline and strike-through, and
+// how thick those are.
+export function textDecorations(span: TextSpan, fontSize: number) {
+  const offsets: number[] = [];
+  if (span.underline || span.link) offsets.push(fontSize * 0.95);
+  if (span.strike) offsets.push(fontSize * 0.55);
+  return { offsets, thickness: Math.max(1, fontSize / 14) };
+}
+
+type Piece = { text: string; span: TextSpan; w?: number };
+
+// A paragraph's words, as pieces so a word can change style midway, each
+// with the space in front of it (null for the first).
+function paragraphWords(spans: TextSpan[]) {
+  const words: { space: Piece | null; pieces: Piece[] }[] = [{ space: null, pieces: [] }];
+  for (const span of spans) {
+    span.text.split(" ").forEach((part, i) => {
+      if (i > 0) words.push({ space: { text: " ", span }, pieces: [] });
+      if (part) words[words.length - 1].pieces.push({ text: part, span });
+    });
+  }
+  return words;
+}
+
+// Items are immutable, so a layout is kept for as long as its item lives.
+let layouts = new WeakMap<TextLayoutInput, TextLayout>();
+
+// For resetExtentCache, once a web font has loaded.
+export function resetTextLayoutCache() {
+  layouts = new WeakMap();
+}
+
+// Lays a text item out in lines of styled runs. With a width, lines break
+// the way wrapText breaks them; without one only paragraphs start new lines.
+export function layoutText(t: TextLayoutInput): TextLayout {
+  const cached = layouts.get(t);
+  if (cached) return cached;
+  const ctx = getMeasureCtx();
+  const measure = (piece: Piece) => {
+    if (piece.w !== undefined) return piece.w;
+    if (ctx) ctx.font = spanFont(piece.span, t);
+    piece.w = ctx ? ctx.measureText(piece.text).width : t.fontSize * 0.6 * piece.text.length;
+    return piece.w;
+  };
+
+  const lines: TextLine[] = [];
+  // Full width of each line, indent included, for alignment.
+  const lineWidths: number[] = [];
+  for (const paragraph of t.rich ?? plainParagraphs(t.text)) {
+    const indent = paragraph.bullet ? bulletIndent(t.fontSize) : 0;
+    const limit = t.width === undefined ? Infinity : Math.max(1, t.width - indent);
+    let line: Piece[] = [];
+    let lineW = 0;
+    const pushLine = () => {
+      const runs: TextRun[] = [];
+      let x = 0;
+      for (const piece of line) {
+        const w = measure(piece);
+        const last = runs[runs.length - 1];
+        if (last && last.span === piece.span) {
+          last.text += piece.text;
+          last.w += w;
+        } else {
+          runs.push({ text: piece.text, x, w, span: piece.span });
+        }
+        x += w;
+      }
+      lines.push({ runs, x: 0, indent, bullet: false });
+      lineWidths.push(indent + lineW);
+      line = [];
+      lineW = 0;
+    };
+    const firstLine = lines.length;
+
+    for (const word of paragraphWords(paragraph.spans)) {
+      const candidate = word.space && line.length > 0 ? [word.space, ...word.pieces] : word.pieces;
+      const candidateW = candidate.reduce((sum, p) => sum + measure(p), 0);
+      if (lineW + candidateW <= limit) {
+        line.push(...candidate);
+        lineW += candidateW;
+        continue;
+      }
+      // Spaces that don't fit hang past the end of the line, as in CSS.
+      if (word.pieces.length === 0) continue;
+      if (line.length > 0) pushLine();
+      // Alone on a line and still too long: break the word between characters.
+      for (const piece of word.pieces) {
+        for (const ch of Array.from(piece.text)) {
+          const charPiece = { text: ch, span: piece.span };
+          const w = measure(charPiece);
+          if (line.length > 0 && lineW + w > limit) pushLine();
+          line.push(charPiece);
+          lineW += w;
+        }
+      }
+    }
+    pushLine();
+    if (paragraph.bullet) lines[firstLine].bullet = true;
+  }
+
+  const w = t.width ?? Math.max(...lineWidths, t.fontSize * 0.5);
+  if (t.align === "center" || t.align === "right") {
+    const share = t.align === "center" ? 0.5 : 1;
+    lines.forEach((line, i) => {
+      line.x = Math.max(0, (w - lineWidths[i]) * share);
+    });
+  }
+  // The last line ends at its glyphs, without the space below them.
+  const h = (lines.length - 1) * textLineHeight(t.fontSize, t.lineHeight) + t.fontSize;
+  const layout = { lines, w, h };
+  layouts.set(t, layout);
+  return layout;
+}
+
+export function measureTextItem(t: TextLayoutInput): { w: number; h: number } {
+  const { w, h } = layoutText(t);
+  return { w, h };
+}
+
+// Breaks text into lines no wider than `maxWidth`: at spaces where possible,
+// inside a word only when the word alone doesn't fit. Explicit newlines are
+// kept.
+export function wrapText(text: string, fontSize: number, maxWidth: number): string[] {
+  const ctx = getMeasureCtx();
+  const width = (s: string) => (ctx ? ctx.measureText(s).width : fontSize * 0.6 * s.length);
+  if (ctx) ctx.font = `500 ${fontSize}px ${TEXT_FONT_STACK}`;
+
+  const lines: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(" ")) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (width(candidate) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = "";
+      for (const ch of Array.from(word)) {
+        if (line && width(line + ch) > maxWidth) {
+          lines.push(line);
+          line = "";
+        }
+        line += ch;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
@@ -0,0 +1,204 @@
+import type { BoardItem } from "@/pages/whiteboard";
+import { createLayer, layerContext, type Context2D, type Layer } from "@/lib/canvas-layer";
+import { SpatialIndex, intersects, itemExtent, type Rect } from "@/lib/spatial-index";
+
+// Committed items are rasterized into fixed-size tiles per zoom level. Panning
+// only blits tiles; an edit re-renders just the tiles its old and new extents
+// touch.
+
+const TILE_PX = 512;
+// About 80 MB of tiles; the least recently shown ones go first.
+const MAX_TILES = 80;
+// Tiles are rendered at a few scales per doubling only, the nearest one at or
+// above the view's, and drawn scaled down to it. Zooming re-renders tiles when
+// it crosses a level, not on every step.
+const LEVELS_PER_DOUBLING = 4;
+
+function tileLevel(scale: number) {
+  const step = Math.ceil(Math.log2(scale) * LEVELS_PER_DOUBLING - 1e-9);
+  return 2 ** (step / LEVELS_PER_DOUBLING);
+}
+
+type Tile = {
+  canvas: Layer;
+  // Board-space area the tile covers.
+  area: Rect;
+  lastUsed: number;
+};
+
+export type TileView = {
+  // Device-pixel position of the board origin on the target canvas.
+  originX: number;
+  originY: number;
+  // Device pixels per board unit (zoom × devicePixelRatio).
+  scale: number;
+  width: number;
+  height: number;
+};
+
+export class TileCache {
+  private items: BoardItem[] = [];
+  private index = new SpatialIndex();
+  private hidden = new Set<string>();
+  private tiles = new Map<string, Tile>();
+  private frame = 0;
+
+  constructor(private readonly paint: (ctx: Context2D, items: BoardItem[]) => void) {}
+
+  // Takes the board's current items and drops the tiles under whatever was
+  // added, changed, deleted or moved in z-order since the last call.
+  setItems(items: BoardItem[]) {
+    if (items === this.items) return;
+    const prev = this.items;
+    const prevById = new Map(prev.map((it) => [it.data.id, it]));
+    const nextIds = new Set(items.map((it) => it.data.id));
+    const dirty: Rect[] = [];
+
+    // Hidden items aren't in any tile, so their changes don't touch tiles.
+    for (const it of items) {
+      const old = prevById.get(it.data.id);
+      if (old === it || this.hidden.has(it.data.id)) continue;
+      if (old) dirty.push(itemExtent(old));
+      dirty.push(itemExtent(it));
+    }
+    for (const old of prev) {
+      if (!nextIds.has(old.data.id) && !this.hidden.has(old.data.id)) {
+        dirty.push(itemExtent(old));
+      }
+    }
+    // An item that now sits on top of (or under) something else changes
+    // only where it overlaps, i.e. within its own extent.
+    const prevBefore = new Map<string, string | null>();
+    let last: string | null = null;
+    for (const old of prev) {
+      if (!nextIds.has(old.data.id)) continue;
+      prevBefore.set(old.data.id, last);
+      last = old.data.id;
+    }
+    last = null;
+    for (const it of items) {
+      const id = it.data.id;
+      if (prevBefore.has(id) && prevBefore.get(id) !== last && !this.hidden.has(id)) {
+        dirty.push(itemExtent(it));
+      }
+      if (prevBefore.has(id)) last = id;
+    }
+
+    this.items = items;
+    this.index.update(items);
+    for (const rect of dirty) this.invalidate(rect);
+  }
+
+  // Leaves items out of the tiles, e.g. text while its editor is open or
+  // items being dragged, which are drawn over the tiles instead.
+  setHidden(ids: string[]) {
+    const next = new Set(ids);
+    const toggled = new Set<string>();
+    next.forEach((id) => {
+      if (!this.hidden.has(id)) toggled.add(id);
+    });
+    this.hidden.forEach((id) => {
+      if (!next.has(id)) toggled.add(id);
+    });
+    if (toggled.size === 0) return;
+    for (const it of this.items) {
+      if (toggled.has(it.data.id)) this.invalidate(itemExtent(it));
+    }
+    this.hidden = next;
+  }
+
+  // Whether an item stacked above `item`, other than those in `except`,
+  // overlaps it, so drawing `item` on top would change the picture.
+  coveredFromAbove(item: BoardItem, except: Set<string>): boolean {
+    const near = this.index.query(itemExtent(item));
+    const at = near.indexOf(item);
+    return near.slice(at + 1).some((it) => !except.has(it.data.id));
+  }
+
+  invalidate(rect: Rect) {
+    this.tiles.forEach((tile, key) => {
+      if (intersects(tile.area, rect)) this.tiles.delete(key);
+    });
+  }
+
+  // For changes the item diff can't see, like an image finishing loading.
+  invalidateWhere(test: (item: BoardItem) => boolean) {
+    for (const it of this.items) {
+      if (test(it)) this.invalidate(itemExtent(it));
+    }
+  }
+
+  clear() {
+    this.tiles.clear();
+    this.index.reset();
+    this.index.update(this.items);
+  }
+
+  // Draws the tiles covering the view onto `ctx` (in device pixels, no
+  // transform), rendering missing ones first.
+  draw(ctx: Context2D, view: TileView) {
+    this.frame += 1;
+    const level = tileLevel(view.scale);
+    // Size of a tile on screen. Tile edges are rounded to device pixels so
+    // neighbouring tiles meet without seams; at an exact level they blit 1:1.
+    const size = (TILE_PX * view.scale) / level;
+    const edge = (origin: number, t: number) => Math.round(origin + t * size);
+    const x0 = Math.floor(-view.originX / size);
+    const y0 = Math.floor(-view.originY / size);
+    const x1 = Math.floor((view.width - view.originX) / size);
+    const y1 = Math.floor((view.height - view.originY) / size);
+    for (let tx = x0; tx <= x1; tx++) {
+      for (let ty = y0; ty <= y1; ty++) {
+        const tile = this.tile(level, tx, ty);
+        if (!tile) continue;
+        const dx = edge(view.originX, tx);
+        const dy = edge(view.originY, ty);
+        ctx.drawImage(
+          tile.canvas,
+          dx,
+          dy,
+          edge(view.originX, tx + 1) - dx,
+          edge(view.originY, ty + 1) - dy,
+        );
+      }
+    }
+    this.evict();
+  }
+
+  private tile(level: number, tx: number, ty: number): Tile | null {
+    const key = `${level}:${tx}:${ty}`;
+    let tile = this.tiles.get(key);
+    if (!tile) {
+      const area = {
+        x: (tx * TILE_PX) / level,
+        y: (ty * TILE_PX) / level,
+        w: TILE_PX / level,
+        h: TILE_PX / level,
+      };
+      const items = this.index
+        .query(area)
+        .filter((it) => !this.hidden.has(it.data.id));
+      // Empty tiles are remembered too (as a 0×0 canvas), so blank board
+      // costs nothing to pan.
+      const size = items.length > 0 ? TILE_PX : 0;
+      const canvas = createLayer(size, size);
+      const ctx = size > 0 ? layerContext(canvas) : null;
+      if (ctx) {
+        ctx.setTransform(level, 0, 0, level, -tx * TILE_PX, -ty * TILE_PX);
+        this.paint(ctx, items);
+      }
+      tile = { canvas, area, lastUsed: 0 };
+      this.tiles.set(key, tile);
+    }
+    tile.lastUsed = this.frame;
+    return tile.canvas.width > 0 ? tile : null;
+  }
+
+  private evict() {
+    if (this.tiles.size <= MAX_TILES) return;
+    const stale = Array.from(this.tiles.entries())
+      .filter(([, tile]) => tile.lastUsed < this.frame)
+      .sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+    for (const [key] of stale.slice(0, this.tiles.size - MAX_TILES)) this.tiles.delete(key);
+  }
+}
@@ -0,0 +1,137 @@
+import type { BoardItem } from "@/pages/whiteboard";
+
+// Undo for a shared board. A step remembers only what this user's own edits
+// did: each item they touched as it was before the first edit and after the
+// last one. Undoing writes back just the fields those edits changed, so
+// whatever other people did on the board in the meantime stays.
+
+type Touched = {
+  before: BoardItem | null;
+  after: BoardItem | null;
+  // Index in the board and the id of the item underneath, on either side of
+  // the step, so deleted items come back where they were.
+  beforeIndex: number;
+  afterIndex: number;
+  belowBefore: string | null;
+  belowAfter: string | null;
+  // Set when the step changed the item's place in the stacking order.
+  moved: boolean;
+};
+
+export type HistoryStep = Map<string, Touched>;
+
+function sameValue(a: unknown, b: unknown) {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Previous id in `ids` for each id that passes `keep`.
+function belowMap(ids: string[], keep: (id: string) => boolean) {
+  const below = new Map<string, string | null>();
+  let last: string | null = null;
+  for (const id of ids) {
+    if (!keep(id)) continue;
+    below.set(id, last);
+    last = id;
+  }
+  return below;
+}
+
+// Adds one local change, from `prev` to `next`, to `step`.
+export function recordChange(step: HistoryStep, prev: BoardItem[], next: BoardItem[]) {
+  const prevIds = prev.map((it) => it.data.id);
+  const nextIds = next.map((it) => it.data.id);
+  const prevIndex = new Map(prevIds.map((id, i) => [id, i]));
+  const nextIndex = new Map(nextIds.map((id, i) => [id, i]));
+  // An item moved if what sits under it among the items on both sides
+  // changed; items merely uncovered by a deletion didn't.
+  const common = (id: string) => prevIndex.has(id) && nextIndex.has(id);
+  const prevCommonBelow = belowMap(prevIds, common);
+  const nextCommonBelow = belowMap(nextIds, common);
+  const ids = new Set([...prevIds, ...nextIds]);
+
+  ids.forEach((id) => {
+    const pi = prevIndex.get(id);
+    const ni = nextIndex.get(id);
+    const before = pi === undefined ? null : prev[pi];
+    const after = ni === undefined ? null : next[ni];
+    const moved = common(id) && prevCommonBelow.get(id) !== nextCommonBelow.get(id);
+    if (before === after && !moved) return;
+    const belowAfter = ni ? nextIds[ni - 1] : null;
+    const touched = step.get(id);
+    if (touched) {
+      touched.after = after;
+      touched.afterIndex = ni ?? -1;
+      touched.belowAfter = belowAfter;
+      touched.moved ||= moved;
+      return;
+    }
+    step.set(id, {
+      before,
+      after,
+      beforeIndex: pi ?? -1,
+      afterIndex: ni ?? -1,
+      belowBefore: pi ? prevIds[pi - 1] : null,
+      belowAfter,
+      moved,
+    });
+  });
+}
+
+// `current` with the fields that changed from `from` to `to` set as in `to`.
+function patchFields(current: BoardItem, from: BoardItem, to: BoardItem): BoardItem {
+  const source = from.data as Record<string, unknown>;
+  const target = to.data as Record<string, unknown>;
+  const data: Record<string, unknown> = { ...current.data };
+  let changed = false;
+  for (const key of Array.from(new Set([...Object.keys(source), ...Object.keys(target)]))) {
+    if (key === "id" || sameValue(source[key], target[key])) continue;
+    if (sameValue(data[key], target[key])) continue;
+    if (target[key] === undefined) delete data[key];
+    else data[key] = target[key];
+    changed = true;
+  }
+  return changed ? ({ ...current, data } as BoardItem) : current;
+}
+
+// Undoes `step` on the board as it is now, or with `redo`, does it again.
+// Items someone else deleted in the meantime stay deleted.
+export function applyStep(items: BoardItem[], step: HistoryStep, redo: boolean): BoardItem[] {
+  const out = items.slice();
+  const indexOf = (id: string | null) => (id === null ? -1 : out.findIndex((it) => it.data.id === id));
+  // Over `below`, at the bottom when there is nothing below, or on top if
+  // `below` is gone.
+  const placeAbove = (item: BoardItem, below: string | null) => {
+    const at = below === null ? -1 : indexOf(below);
+    out.splice(below !== null && at === -1 ? out.length : at + 1, 0, item);
+  };
+
+  // Items go back bottom to top, so each one's neighbour below is already in
+  // place when it is put above it.
+  const entries = Array.from(step.entries()).sort(([, a], [, b]) =>
+    redo ? a.afterIndex - b.afterIndex : a.beforeIndex - b.beforeIndex,
+  );
+  for (const [id, t] of entries) {
+    const from = redo ? t.before : t.after;
+    const to = redo ? t.after : t.before;
+    const below = redo ? t.belowAfter : t.belowBefore;
+    const i = indexOf(id);
+    if (to === null) {
+      if (i !== -1) out.splice(i, 1);
+      continue;
+    }
+    if (i === -1) {
+      if (from === null) placeAbove(to, below);
+      continue;
+    }
+    const item = from === null ? out[i] : patchFields(out[i], from, to);
+    if (t.moved) {
+      out.splice(i, 1);
+      placeAbove(item, below);
+    } else {
+      out[i] = item;
+    }
+  }
+  return out;
+}
@@ -0,0 +1,141 @@
+import type { BoardItem } from "@/pages/whiteboard";
+import { connectorPolyline } from "@/lib/connectors";
+import { distToSegment } from "@/lib/selection";
+import { itemExtent, type Rect } from "@/lib/spatial-index";
+
+type Point = { x: number; y: number };
+type StrokeData = Extract<BoardItem, { type: "stroke" }>["data"];
+
+// The eraser removes content instead of painting over it. Pen strokes lose
+// the points under it and fall apart into separate strokes; anything else it
+// touches, including marks left by the old compositing eraser, is deleted
+// whole.
+
+function distToRect(p: Point, r: Rect) {
+  const dx = Math.max(r.x - p.x, 0, p.x - (r.x + r.w));
+  const dy = Math.max(r.y - p.y, 0, p.y - (r.y + r.h));
+  return Math.hypot(dx, dy);
+}
+
+// Points along the eraser's path close enough together that the discs
+// around them cover the whole swept band.
+function samplePath(from: Point, to: Point, radius: number): Point[] {
+  const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / (radius / 2)));
+  const samples: Point[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps;
+    samples.push({ x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t });
+  }
+  return samples;
+}
+
+function touchesItem(item: BoardItem, samples: Point[], radius: number) {
+  if (item.type === "shape" && item.data.kind === "ellipse") {
+    const sh = item.data;
+    const rx = Math.abs(sh.w) / 2 + sh.strokeWidth / 2 + radius;
+    const ry = Math.abs(sh.h) / 2 + sh.strokeWidth / 2 + radius;
+    const cx = sh.x + sh.w / 2;
+    const cy = sh.y + sh.h / 2;
+    return samples.some((p) => ((p.x - cx) / rx) ** 2 + ((p.y - cy) / ry) ** 2 <= 1);
+  }
+  if (item.type === "connector") {
+    const points = connectorPolyline(item.data);
+    const reach = radius + item.data.strokeWidth / 2;
+    return samples.some((p) =>
+      points.some((q, i) => i > 0 && distToSegment(p, points[i - 1], q) <= reach),
+    );
+  }
+  const extent = itemExtent(item);
+  return samples.some((p) => distToRect(p, extent) <= radius);
+}
+
+// Splits a stroke around the erased band. Stroke segments that pass near the
+// eraser are subdivided first, so a long straight segment is cut where the
+// eraser crossed it rather than kept or dropped whole. Returns null when the
+// stroke is untouched.
+function splitStroke(
+  s: StrokeData,
+  from: Point,
+  to: Point,
+  radius: number,
+  makeId: () => string,
+): StrokeData[] | null {
+  const reach = radius + s.size / 2;
+  const erased = (p: Point) => distToSegment(p, from, to) < reach;
+
+  const runs: Point[][] = [];
+  let run: Point[] = [];
+  let touched = false;
+  const visit = (p: Point) => {
+    if (erased(p)) {
+      touched = true;
+      if (run.length > 0) runs.push(run);
+      run = [];
+    } else {
+      run.push(p);
+    }
+  };
+
+  visit(s.points[0]);
+  for (let i = 1; i < s.points.length; i++) {
+    const a = s.points[i - 1];
+    const b = s.points[i];
+    const len = Math.hypot(b.x - a.x, b.y - a.y);
+    const near = Math.min(distToSegment(a, from, to), distToSegment(b, from, to)) < reach + len;
+    if (near && len > reach / 2) {
+      const steps = Math.ceil(len / (reach / 2));
+      for (let k = 1; k < steps; k++) {
+        visit({ x: a.x + ((b.x - a.x) * k) / steps, y: a.y + ((b.y - a.y) * k) / steps });
+      }
+    }
+    visit(b);
+  }
+  if (!touched) return null;
+  if (run.length > 0) runs.push(run);
+
+  // A single leftover point would draw nothing.
+  return runs
+    .filter((points) => points.length > 1)
+    .map((points) => ({ ...s, id: makeId(), points }));
+}
+
+// Applies one eraser movement from `from` to `to`. `candidates` are the items
+// whose extent comes near the path (from the spatial index); the result is the
+// new item list, or null if nothing was erased.
+export function eraseAlong(
+  items: BoardItem[],
+  candidates: BoardItem[],
+  from: Point,
+  to: Point,
+  radius: number,
+  makeId: () => string,
+): BoardItem[] | null {
+  const samples = samplePath(from, to, radius);
+  const replaced = new Map<string, BoardItem[]>();
+  for (const it of candidates) {
+    if (it.type === "stroke") {
+      if (it.data.points.length === 0) continue;
+      const pieces = splitStroke(it.data, from, to, radius, makeId);
+      if (!pieces) continue;
+      // A stroke left by the old compositing eraser can't be selected, so
+      // touching it with the eraser is the way to remove it, and the hole
+      // it punched, whole.
+      if (it.data.tool === "eraser") replaced.set(it.data.id, []);
+      else replaced.set(it.data.id, pieces.map((data) => ({ type: "stroke", data })));
+    } else if (touchesItem(it, samples, radius)) {
+      replaced.set(it.data.id, []);
+    }
+  }
+  if (replaced.size === 0) return null;
+  return items.flatMap((it) => replaced.get(it.data.id) ?? [it]);
+}
+
+// The board area one eraser movement can reach, for querying candidates.
+export function eraserReach(from: Point, to: Point, radius: number): Rect {
+  return {
+    x: Math.min(from.x, to.x) - radius,
+    y: Math.min(from.y, to.y) - radius,
+    w: Math.abs(to.x - from.x) + radius * 2,
+    h: Math.abs(to.y - from.y) + radius * 2,
+  };
+}
@@ -0,0 +1,27 @@
+import { Link } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { AlertCircle } from "lucide-react";
+
+// Shown for `/b/:boardId` links whose id no board can have.
+export default function InvalidBoard() {
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardContent className="pt-6">
+          <div className="flex mb-4 gap-2">
+            <AlertCircle className="h-8 w-8 text-red-500" />
+            <h1 className="text-2xl font-bold text-gray-900">Board not found</h1>
+          </div>
+
+          <p className="mt-4 text-sm text-gray-600">
+            This link doesn't point to a board. Check that it was copied in full, or{" "}
+            <Link href="/" className="text-blue-600 underline" data-testid="link-new-board">
+              start a new board
+            </Link>
+            .
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
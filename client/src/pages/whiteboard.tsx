@@ -1,35 +1,128 @@
 import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
 import {
+  Bold,
   BringToFront,
   ChevronDown,
+  ArrowLeft,
+  ArrowRight,
   ChevronUp,
   Circle,
+  Code,
+  CornerDownRight,
   Download,
   Eraser,
+  FilePlus2,
+  FolderOpen,
   Hand,
   HelpCircle,
+  History,
   ImagePlus,
+  Italic,
+  Link,
+  Link2,
+  List,
   Minus,
+  LassoSelect,
   MousePointer2,
+  MoveUpRight,
   PenTool,
   Plus,
   Redo2,
   RotateCcw,
   Save,
   SendToBack,
+  Slash,
+  Spline,
   Square,
+  StickyNote as StickyNoteIcon,
+  Strikethrough,
+  TextAlignCenter,
+  TextAlignEnd,
+  TextAlignStart,
   TextCursor,
   Trash2,
+  Underline,
   Users,
 } from "lucide-react";
 import { AnimatePresence, motion } from "framer-motion";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import type { Board, BoardVersion } from "@shared/schema";
+import { BOARD_FILE_EXTENSION, createBoardFile, parseBoardFile } from "@shared/board-file";
+import { HistoryPanel } from "@/components/history-panel";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuShortcut,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
 import { Kbd } from "@/components/ui/kbd";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Slider } from "@/components/ui/slider";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { cn } from "@/lib/utils";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { boardPath, createBoardId } from "@/lib/boards";
+import { toast } from "@/hooks/use-toast";
 import { useCollaboration } from "@/hooks/use-collaboration";
+import { useAutosave } from "@/hooks/use-autosave";
+import { BoardDoc, type BoardDelta, type StateVector } from "@/lib/board-doc";
+import { boardToSvg, contentBounds, type ExportBackground } from "@/lib/export-svg";
+import { readClipboard, writeItemsToClipboard, type ClipboardContent } from "@/lib/clipboard";
+import { EXCALIDRAW_EXTENSION, importExcalidraw } from "@/lib/import-excalidraw";
+import { boardToPdf, type PdfLayout } from "@/lib/export-pdf";
+import { SpatialIndex, itemExtent, resetExtentCache, type Rect } from "@/lib/spatial-index";
+import { SceneHost } from "@/lib/scene-host";
+import type { SelectionChrome } from "@/lib/scene-renderer";
+import { hitsItem, itemInPolygon, polygonBounds, rectPolygon } from "@/lib/selection";
+import { eraseAlong, eraserReach } from "@/lib/vector-eraser";
+import { applyStep, recordChange, type HistoryStep } from "@/lib/undo-history";
+import { releaseConnector, remapConnector, resolveConnectors, snapEnd } from "@/lib/connectors";
+import {
+  activeTextFormats,
+  applyTextFormat,
+  isPlainRich,
+  plainParagraphs,
+  readRichText,
+  richPlainText,
+  richTextFragment,
+  selectedLinkHref,
+  trimRichEnd,
+  type RichParagraph,
+  type TextFormat,
+} from "@/lib/rich-text";
+import {
+  STICKY_COLORS,
+  STICKY_DEFAULT_SIZE,
+  STICKY_MIN_SIZE,
+  STICKY_PADDING,
+  STICKY_SHADOW,
+  STICKY_TEXT_COLOR,
+  stickyRect,
+  stickyTextLayout,
+} from "@/lib/sticky-notes";
+import {
+  TEXT_DEFAULT_WEIGHT,
+  TEXT_FONTS,
+  TEXT_MAX_FONT,
+  TEXT_MAX_LINE_HEIGHT,
+  TEXT_MIN_FONT,
+  TEXT_MIN_LINE_HEIGHT,
+  TEXT_WEIGHTS,
+  boldWeight,
+  measureTextItem,
+  textFontStack,
+  textHalfLeading,
+  textLineHeight,
+  type TextAlign,
+  type TextFont,
+  type TextStyle,
+} from "@/lib/text-layout";
 
 export type Tool =
   | "select"
@@ -38,6 +131,8 @@ export type Tool =
   | "rect"
   | "ellipse"
   | "text"
+  | "connector"
+  | "sticky"
   | "eraser";
 
 type Point = { x: number; y: number };
@@ -69,6 +164,17 @@ type TextItem = {
   text: string;
   color: string;
   fontSize: number;
+  // Wrap width. Without one the text only breaks at newlines and grows as
+  // wide as its longest line.
+  width?: number;
+  // Formatting. `text` always holds the same words unformatted; items
+  // without any formatting leave this out.
+  rich?: RichParagraph[];
+  // Typesetting; see TextStyle for the defaults of unset fields.
+  align?: TextAlign;
+  font?: TextFont;
+  weight?: number;
+  lineHeight?: number;
 };
 
 type ImageItem = {
@@ -80,11 +186,125 @@ type ImageItem = {
   src: string;
 };
 
+// A square note. `color` is the paper; the text is always dark and sized
+// to fit (see stickyTextLayout).
+type StickyNote = {
+  id: string;
+  x: number;
+  y: number;
+  size: number;
+  text: string;
+  color: string;
+};
+
+// One end of a connector. With `bind` set the end is attached to the middle
+// of that side of another item and follows it around.
+type ConnectorEnd = {
+  x: number;
+  y: number;
+  bind?: { id: string; side: "n" | "e" | "s" | "w" };
+};
+
+export type ConnectorRouting = "straight" | "elbow" | "curved";
+
+type ConnectorStyle = Pick<Connector, "routing" | "startArrow" | "endArrow">;
+
+type Connector = {
+  id: string;
+  start: ConnectorEnd;
+  end: ConnectorEnd;
+  routing: ConnectorRouting;
+  startArrow: boolean;
+  endArrow: boolean;
+  color: string;
+  strokeWidth: number;
+};
+
 export type BoardItem =
   | { type: "stroke"; data: Stroke }
   | { type: "shape"; data: Shape }
   | { type: "text"; data: TextItem }
-  | { type: "image"; data: ImageItem };
+  | { type: "image"; data: ImageItem }
+  | { type: "connector"; data: Connector }
+  | { type: "sticky"; data: StickyNote };
+
+// Field-level change to one item.
+type ItemPatch =
+  | Partial<Omit<Stroke, "id">>
+  | Partial<Omit<Shape, "id">>
+  | Partial<Omit<TextItem, "id">>
+  | Partial<Omit<ImageItem, "id">>
+  | Partial<Omit<Connector, "id">>
+  | Partial<Omit<StickyNote, "id">>;
+
+function applyItemPatch(item: BoardItem, patch: ItemPatch): BoardItem {
+  return { type: item.type, data: { ...item.data, ...patch } } as BoardItem;
+}
+
+function translateItem(item: BoardItem, dx: number, dy: number): BoardItem {
+  if (item.type === "stroke") {
+    const points = item.data.points.map((p) => ({ x: p.x + dx, y: p.y + dy }));
+    return applyItemPatch(item, { points });
+  }
+  if (item.type === "connector") {
+    const { start, end } = item.data;
+    return applyItemPatch(item, {
+      start: { ...start, x: start.x + dx, y: start.y + dy },
+      end: { ...end, x: end.x + dx, y: end.y + dy },
+    });
+  }
+  return applyItemPatch(item, { x: item.data.x + dx, y: item.data.y + dy });
+}
+
+// Scales an item uniformly about `origin`, as when a group is resized from a
+// corner. Stroke widths stay as they are.
+function scaleItem(item: BoardItem, origin: Point, s: number): BoardItem {
+  const map = (p: Point) => ({ x: origin.x + (p.x - origin.x) * s, y: origin.y + (p.y - origin.y) * s });
+  if (item.type === "stroke") return applyItemPatch(item, { points: item.data.points.map(map) });
+  if (item.type === "connector") {
+    const { start, end } = item.data;
+    return applyItemPatch(item, { start: { ...start, ...map(start) }, end: { ...end, ...map(end) } });
+  }
+  const { x, y } = map(item.data);
+  if (item.type === "shape") return applyItemPatch(item, { x, y, w: item.data.w * s, h: item.data.h * s });
+  if (item.type === "image") {
+    return applyItemPatch(item, { x, y, width: item.data.width * s, height: item.data.height * s });
+  }
+  if (item.type === "sticky") {
+    return applyItemPatch(item, { x, y, size: Math.max(STICKY_MIN_SIZE, item.data.size * s) });
+  }
+  const fontSize = clamp(item.data.fontSize * s, TEXT_MIN_FONT, TEXT_MAX_FONT);
+  if (item.data.width === undefined) return applyItemPatch(item, { x, y, fontSize });
+  // Wrapped text keeps its line breaks by scaling its width with the font.
+  const width = (item.data.width * fontSize) / item.data.fontSize;
+  return applyItemPatch(item, { x, y, fontSize, width });
+}
+
+type ReorderMode = "front" | "back" | "forward" | "backward";
+
+// Moves the items in `ids` in z-order, keeping their order among themselves.
+// A step forward or backward passes the nearest item that isn't moving.
+function reorderItems(items: BoardItem[], ids: Set<string>, mode: ReorderMode): BoardItem[] {
+  const picked = items.filter((it) => ids.has(it.data.id));
+  const rest = items.filter((it) => !ids.has(it.data.id));
+  if (mode === "front") return [...rest, ...picked];
+  if (mode === "back") return [...picked, ...rest];
+  const next = items.slice();
+  if (mode === "forward") {
+    for (let i = next.length - 2; i >= 0; i--) {
+      if (ids.has(next[i].data.id) && !ids.has(next[i + 1].data.id)) {
+        [next[i], next[i + 1]] = [next[i + 1], next[i]];
+      }
+    }
+  } else {
+    for (let i = 1; i < next.length; i++) {
+      if (ids.has(next[i].data.id) && !ids.has(next[i - 1].data.id)) {
+        [next[i], next[i - 1]] = [next[i - 1], next[i]];
+      }
+    }
+  }
+  return next;
+}
 
 function clamp(n: number, a: number, b: number) {
   return Math.min(b, Math.max(a, n));
@@ -126,43 +346,120 @@ function makeShapeFill(stroke: string, opacity: number): string {
   return `rgba(${rgb.r},${rgb.g},${rgb.b},${a})`;
 }
 
-function uid() {
-  return Math.random().toString(16).slice(2) + Date.now().toString(16);
+const IMAGE_MAX_DIM = 400;
+
+// Reads an image file as a data URL with the size it gets on the board:
+// its natural size, scaled down to fit IMAGE_MAX_DIM.
+function readImageFile(file: File): Promise<{ src: string; width: number; height: number } | null> {
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onerror = () => resolve(null);
+    reader.onload = () => {
+      const src = reader.result as string;
+      const img = new Image();
+      img.onerror = () => resolve(null);
+      img.onload = () => {
+        let width = img.naturalWidth;
+        let height = img.naturalHeight;
+        // SVGs without an intrinsic size report 0.
+        if (!width || !height) {
+          width = IMAGE_MAX_DIM;
+          height = IMAGE_MAX_DIM;
+        }
+        if (width > IMAGE_MAX_DIM || height > IMAGE_MAX_DIM) {
+          const scale = IMAGE_MAX_DIM / Math.max(width, height);
+          width = Math.round(width * scale);
+          height = Math.round(height * scale);
+        }
+        resolve({ src, width, height });
+      };
+      img.src = src;
+    };
+    reader.readAsDataURL(file);
+  });
+}
+
+const DROP_GAP = 24;
+
+// Lays groups of items out in a grid of about as many columns as rows,
+// centered on `at`. Each group keeps its own layout; rows are as tall as
+// their tallest group.
+function tileGroups(groups: BoardItem[][], at: Point): BoardItem[] {
+  const boxes = groups.map((g) => contentBounds(g) ?? { x: 0, y: 0, w: 0, h: 0 });
+  const cols = Math.ceil(Math.sqrt(groups.length));
+  const rows: number[][] = [];
+  for (let i = 0; i < groups.length; i += cols) {
+    rows.push(groups.slice(i, i + cols).map((_, k) => i + k));
+  }
+  const rowWidth = (row: number[]) =>
+    row.reduce((sum, i) => sum + boxes[i].w, 0) + DROP_GAP * (row.length - 1);
+  const rowHeight = (row: number[]) => Math.max(...row.map((i) => boxes[i].h));
+  const totalW = Math.max(...rows.map(rowWidth));
+  const totalH = rows.reduce((sum, row) => sum + rowHeight(row), 0) + DROP_GAP * (rows.length - 1);
+
+  const placed: BoardItem[] = [];
+  let y = at.y - totalH / 2;
+  for (const row of rows) {
+    let x = at.x - totalW / 2;
+    for (const i of row) {
+      const b = boxes[i];
+      placed.push(...groups[i].map((it) => translateItem(it, x - b.x, y - b.y)));
+      x += b.w + DROP_GAP;
+    }
+    y += rowHeight(row) + DROP_GAP;
+  }
+  return placed;
 }
 
-const TEXT_LINE_GAP = 6;
-const TEXT_FONT_STACK = "Inter, ui-sans-serif, system-ui";
-const TEXT_MIN_FONT = 8;
-const TEXT_MAX_FONT = 200;
+// How far Cmd+D moves the copies, so they don't hide the originals.
+const DUPLICATE_OFFSET = 16;
+
+// Buttons of the toolbar over the text editor.
+const TEXT_FORMAT_BUTTONS: { format: TextFormat; label: string; icon: typeof Bold }[] = [
+  { format: "bold", label: "Bold (⌘B)", icon: Bold },
+  { format: "italic", label: "Italic (⌘I)", icon: Italic },
+  { format: "underline", label: "Underline (⌘U)", icon: Underline },
+  { format: "strike", label: "Strikethrough", icon: Strikethrough },
+  { format: "code", label: "Inline code", icon: Code },
+  { format: "bullet", label: "Bulleted list", icon: List },
+  { format: "link", label: "Link (⌘K)", icon: Link },
+];
+
+// Editor shortcuts, with Ctrl or Cmd.
+const TEXT_FORMAT_KEYS: Record<string, TextFormat> = {
+  b: "bold",
+  i: "italic",
+  u: "underline",
+  k: "link",
+};
+
+const TEXT_ALIGN_BUTTONS: { value: TextAlign; label: string; icon: typeof Bold }[] = [
+  { value: "left", label: "Align left", icon: TextAlignStart },
+  { value: "center", label: "Align center", icon: TextAlignCenter },
+  { value: "right", label: "Align right", icon: TextAlignEnd },
+];
 
-function textLineHeight(fontSize: number) {
-  return fontSize + TEXT_LINE_GAP;
+// The typesetting fields a text item has set.
+function pickTextStyle(t: TextStyle): TextStyle {
+  const style: TextStyle = {};
+  if (t.align !== undefined) style.align = t.align;
+  if (t.font !== undefined) style.font = t.font;
+  if (t.weight !== undefined) style.weight = t.weight;
+  if (t.lineHeight !== undefined) style.lineHeight = t.lineHeight;
+  return style;
 }
 
-let _textMeasureCtx: CanvasRenderingContext2D | null = null;
-function getMeasureCtx() {
-  if (_textMeasureCtx) return _textMeasureCtx;
-  const c = document.createElement("canvas");
-  _textMeasureCtx = c.getContext("2d");
-  return _textMeasureCtx;
+// Copies of the items under new ids, for paste and duplicate. Connectors
+// stay attached to items copied along with them.
+function withNewIds(items: BoardItem[]): BoardItem[] {
+  const ids = new Map(items.map((it) => [it.data.id, uid()]));
+  return items.map((it) =>
+    remapConnector({ type: it.type, data: { ...it.data, id: ids.get(it.data.id)! } } as BoardItem, ids),
+  );
 }
 
-function measureTextItem(text: string, fontSize: number): { w: number; h: number } {
-  const ctx = getMeasureCtx();
-  const lines = text.length === 0 ? [""] : text.split("\n");
-  let maxW = 0;
-  if (ctx) {
-    ctx.font = `500 ${fontSize}px ${TEXT_FONT_STACK}`;
-    for (const ln of lines) {
-      const w = ctx.measureText(ln || " ").width;
-      if (w > maxW) maxW = w;
-    }
-  } else {
-    maxW = fontSize * 0.6 * Math.max(1, ...lines.map((l) => l.length));
-  }
-  const lineH = textLineHeight(fontSize);
-  const h = lines.length * lineH - TEXT_LINE_GAP;
-  return { w: Math.max(maxW, fontSize * 0.5), h };
+function uid() {
+  return Math.random().toString(16).slice(2) + Date.now().toString(16);
 }
 
 // Map a viewport (client) coordinate to a caret position inside a contentEditable.
@@ -212,7 +509,7 @@ type Handle = "nw" | "n" | "ne" | "e" | "se" | "s" | "sw" | "w";
 
 type Bounds = {
   id: string;
-  type: "image" | "shape" | "text";
+  type: "image" | "shape" | "text" | "stroke" | "connector" | "sticky";
   x: number;
   y: number;
   w: number;
@@ -220,9 +517,26 @@ type Bounds = {
   fontSize?: number;
 };
 
-const TEXT_CORNER_HANDLES: Handle[] = ["nw", "ne", "se", "sw"];
+// Text scales its font from the corners; the side handles set its wrap width.
+const TEXT_HANDLES: Handle[] = ["nw", "ne", "e", "se", "sw", "w"];
+// Strokes and multi-item selections only scale uniformly, from a corner.
+const SCALE_HANDLES: Handle[] = ["nw", "ne", "se", "sw"];
 
 function itemBounds(item: BoardItem): Bounds | null {
+  if (item.type === "stroke") {
+    // Strokes left by the old compositing eraser can't be selected.
+    if (item.data.tool !== "pen" || item.data.points.length === 0) return null;
+    const { x, y, w, h } = itemExtent(item);
+    return { id: item.data.id, type: "stroke", x, y, w, h };
+  }
+  if (item.type === "connector") {
+    const { x, y, w, h } = itemExtent(item);
+    return { id: item.data.id, type: "connector", x, y, w, h };
+  }
+  if (item.type === "sticky") {
+    const n = item.data;
+    return { id: n.id, type: "sticky", x: n.x, y: n.y, w: n.size, h: n.size };
+  }
   if (item.type === "image") {
     const i = item.data;
     return { id: i.id, type: "image", x: i.x, y: i.y, w: i.width, h: i.height };
@@ -240,12 +554,22 @@ function itemBounds(item: BoardItem): Bounds | null {
   }
   if (item.type === "text") {
     const t = item.data;
-    const { w, h } = measureTextItem(t.text, t.fontSize);
+    // Measuring text is the expensive part; the extent is cached per item.
+    const { w, h } = itemExtent(item);
     return { id: t.id, type: "text", x: t.x, y: t.y, w, h, fontSize: t.fontSize };
   }
   return null;
 }
 
+function unionBounds(list: Bounds[]): { x: number; y: number; w: number; h: number } | null {
+  if (list.length === 0) return null;
+  const x = Math.min(...list.map((b) => b.x));
+  const y = Math.min(...list.map((b) => b.y));
+  const right = Math.max(...list.map((b) => b.x + b.w));
+  const bottom = Math.max(...list.map((b) => b.y + b.h));
+  return { x, y, w: right - x, h: bottom - y };
+}
+
 function getHandleRects(b: { x: number; y: number; w: number; h: number }, hs: number) {
   const { x, y, w, h } = b;
   const cx = x + w / 2;
@@ -279,7 +603,10 @@ function hitHandle(
 }
 
 function handlesForType(t: Bounds["type"]): Handle[] {
-  if (t === "text") return TEXT_CORNER_HANDLES;
+  if (t === "text") return TEXT_HANDLES;
+  if (t === "stroke" || t === "sticky") return SCALE_HANDLES;
+  // A connector is reshaped by dragging its ends instead.
+  if (t === "connector") return [];
   return ["nw", "n", "ne", "e", "se", "s", "sw", "w"];
 }
 
@@ -298,6 +625,23 @@ const HANDLE_CURSOR_CLASS: Record<Handle, string> = {
   se: "cursor-nwse-resize",
 };
 
+function exportFileName(ext: string) {
+  return `collabboard-${new Date().toISOString().slice(0, 19).replaceAll(":", "-")}.${ext}`;
+}
+
+function downloadUrl(href: string, fileName: string) {
+  const link = document.createElement("a");
+  link.download = fileName;
+  link.href = href;
+  link.click();
+}
+
+// The click only starts the download; revoking an object URL straight after
+// it can cancel the download in some browsers.
+function revokeObjectUrlLater(url: string) {
+  window.setTimeout(() => URL.revokeObjectURL(url), 10000);
+}
+
 function formatPct(n: number) {
   return `${Math.round(n * 100)}%`;
 }
@@ -369,6 +713,42 @@ function ToolButton({
   );
 }
 
+function OptionButton({
+  active,
+  label,
+  icon,
+  onClick,
+  testId,
+}: {
+  active: boolean;
+  label: string;
+  icon: React.ReactNode;
+  onClick: () => void;
+  testId: string;
+}) {
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <button
+          type="button"
+          data-testid={testId}
+          aria-pressed={active}
+          onClick={onClick}
+          className={cn(
+            "grid size-8 place-items-center rounded-lg transition-colors",
+            active ? "bg-slate-900 text-white" : "text-slate-700 hover:bg-slate-100",
+          )}
+        >
+          {icon}
+        </button>
+      </TooltipTrigger>
+      <TooltipContent side="top" className="bg-slate-900 text-white">
+        {label}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
 function ArrangeButton({
   label,
   icon,
@@ -496,15 +876,13 @@ function ColorPicker({
   );
 }
 
-export default function WhiteboardPage() {
+export default function WhiteboardPage({ boardId }: { boardId: string }) {
+  const [, setLocation] = useLocation();
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
   const rafRef = useRef<number | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
-  const imageCacheRef = useRef<Map<string, HTMLImageElement>>(new Map());
-  
-  // Offscreen canvas for drawing content (strokes, shapes, etc.) - eraser affects this layer only
-  const contentCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const boardFileInputRef = useRef<HTMLInputElement | null>(null);
 
   const [tool, setTool] = useState<Tool>("pen");
   const [colorOpen, setColorOpen] = useState<boolean>(false);
@@ -513,7 +891,14 @@ export default function WhiteboardPage() {
   const [fillOpacity, setFillOpacity] = useState(0.1);
   const [customColor, setCustomColor] = useState<string>("#3182CE");
   const [strokeSize, setStrokeSize] = useState<number>(3);
+  const [connectorStyle, setConnectorStyle] = useState<ConnectorStyle>({
+    routing: "straight",
+    startArrow: false,
+    endArrow: true,
+  });
+  const [stickyColor, setStickyColor] = useState<string>(STICKY_COLORS[0].value);
   const [fontSize, setFontSize] = useState<number>(18);
+  const [textStyle, setTextStyle] = useState<TextStyle>({});
   const [zoom, setZoom] = useState<number>(1);
 
   type EditingText = {
@@ -524,11 +909,25 @@ export default function WhiteboardPage() {
     fontSize: number;
     color: string;
     isNew: boolean;
+    // The text's wrap width, formatting and typesetting, if it has them.
+    width?: number;
+    rich?: RichParagraph[];
+    style?: TextStyle;
+    // Set when the text belongs to a sticky note; the editor then stands in
+    // for the whole note and the font follows stickyTextLayout.
+    note: { size: number; color: string } | null;
   };
   const [editingText, setEditingText] = useState<EditingText | null>(null);
   const editorRef = useRef<HTMLDivElement | null>(null);
-  const editorContentRef = useRef<string>("");
+  // The editor's content as last read back from its DOM.
+  const editorContentRef = useRef<RichParagraph[]>([]);
   const editingTextRef = useRef<EditingText | null>(null);
+  const editorToolbarRef = useRef<HTMLDivElement | null>(null);
+  // Formats at the editor's caret, for the toolbar.
+  const [textFormats, setTextFormats] = useState<Set<TextFormat>>(() => new Set());
+  // The address being typed for a link, and the selection it will apply to.
+  const [linkDraft, setLinkDraft] = useState<string | null>(null);
+  const linkRangeRef = useRef<Range | null>(null);
   // Client-space point where the caret should land when an editor opens.
   // null => collapse to the end of the content (used for brand-new text).
   const pendingCaretRef = useRef<{ x: number; y: number } | null>(null);
@@ -546,7 +945,10 @@ export default function WhiteboardPage() {
     if (tool !== "eraser") setEraserCursor(null);
   }, [tool]);
 
-  const [items, setItems] = useState<BoardItem[]>([]);
+  // The replicated document is the source of truth; `items` is its current
+  // view, re-read after every local commit or remote merge.
+  const [doc] = useState(() => new BoardDoc(uid()));
+  const [items, setItems] = useState<BoardItem[]>(() => doc.items());
   const itemsRef = useRef<BoardItem[]>(items);
   
   // Keep ref in sync with state to avoid stale closures
@@ -554,125 +956,254 @@ export default function WhiteboardPage() {
     itemsRef.current = items;
   }, [items]);
   
-  const [past, setPast] = useState<BoardItem[][]>([]);
-  const [future, setFuture] = useState<BoardItem[][]>([]);
+  // Undo steps. Local edits are recorded into the last step of `past`;
+  // commitHistory starts a new one before each undoable edit.
+  const historyRef = useRef<{ past: HistoryStep[]; future: HistoryStep[] }>({
+    past: [],
+    future: [],
+  });
 
   const commitHistory = useCallback(() => {
-    setPast((p) => [...p, itemsRef.current]);
-    setFuture([]);
+    historyRef.current.past.push(new Map());
+    historyRef.current.future = [];
   }, []);
 
   const [isPointerDown, setIsPointerDown] = useState(false);
   const [activeStroke, setActiveStroke] = useState<Stroke | null>(null);
   const [activeShape, setActiveShape] = useState<Shape | null>(null);
+  const [activeConnector, setActiveConnector] = useState<Connector | null>(null);
   const [shapeStart, setShapeStart] = useState<Point | null>(null);
   const [isPanning, setIsPanning] = useState(false);
   const [panStart, setPanStart] = useState<{ x: number; y: number; vx: number; vy: number } | null>(null);
 
-  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Selected item ids, in the order they were picked. A lone shape, text or
+  // image resizes on its own terms; strokes and groups scale uniformly.
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const selectedId = selectedIds.length === 1 ? selectedIds[0] : null;
+  const [selectMode, setSelectMode] = useState<"marquee" | "lasso">("marquee");
+  // The marquee or lasso being dragged out; `base` is what was already
+  // selected when it started with Shift held.
+  const [selectionArea, setSelectionArea] = useState<{
+    kind: "marquee" | "lasso";
+    points: Point[];
+    base: string[];
+  } | null>(null);
   const [dragMode, setDragMode] = useState<
-    | { kind: "move"; startMouse: Point; startBounds: Bounds }
+    | { kind: "move"; startMouse: Point; startItems: BoardItem[] }
     | { kind: "resize"; handle: Handle; startMouse: Point; startBounds: Bounds }
+    | { kind: "scale"; handle: Handle; startMouse: Point; startBounds: Rect; startItems: BoardItem[] }
+    | { kind: "endpoint"; startMouse: Point; id: string; end: "start" | "end" }
     | null
   >(null);
   const [hoverHandle, setHoverHandle] = useState<Handle | null>(null);
   const [hoverItemId, setHoverItemId] = useState<string | null>(null);
   const dragPreSnapshotRef = useRef<BoardItem[] | null>(null);
-  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; id: string } | null>(
-    null,
+  // The eraser edits the board as it moves; the first actual erase of a
+  // gesture records the undo step.
+  const eraserGestureRef = useRef<{ last: Point; erased: boolean } | null>(null);
+  // Last board position under the pointer; pasted content lands there.
+  const lastPointerRef = useRef<Point | null>(null);
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number } | null>(null);
+
+  // Collaboration: handle remote operations. Registers merge field by field,
+  // so an item can move under a connector whose ends were written before the
+  // move arrived; attached ends are put back on their items for display, and
+  // the next local edit writes them.
+  const handleRemoteDelta = useCallback(
+    (delta: BoardDelta) => {
+      if (!doc.merge(delta)) return;
+      const before = itemsRef.current;
+      itemsRef.current = resolveConnectors(doc.items());
+      markMergedRef.current(before, itemsRef.current);
+      setItems(itemsRef.current);
+      setSelectedIds((curr) => {
+        const kept = curr.filter((id) => itemsRef.current.some((it) => it.data.id === id));
+        return kept.length === curr.length ? curr : kept;
+      });
+    },
+    [doc],
+  );
+
+  const getStateVector = useCallback(() => doc.stateVector(), [doc]);
+
+  const getDeltaSince = useCallback((vector: StateVector) => doc.deltaSince(vector), [doc]);
+
+  const {
+    myName,
+    myColor,
+    remotePeers,
+    isConnected,
+    peerCount,
+    broadcastCursor,
+    broadcastDelta,
+  } = useCollaboration(boardId, {
+    onRemoteDelta: handleRemoteDelta,
+    getStateVector,
+    getDeltaSince,
+  });
+
+  const { status: saveStatus, save, markSaved, markMerged } = useAutosave(boardId, items, myName);
+  // handleRemoteDelta is needed before the autosave hook can be called.
+  const markMergedRef = useRef(markMerged);
+  markMergedRef.current = markMerged;
+
+  // A version picked in the history panel replaces the board on screen, read
+  // only, until it is restored or dismissed.
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [preview, setPreview] = useState<BoardVersion | null>(null);
+
+  // Spatial lookups for hit testing, following `items` lazily.
+  const [liveIndex] = useState(() => new SpatialIndex());
+
+  // Saved boards are seeded underneath whatever peers have already synced,
+  // once: autosave writes each save back into the query, and those items are
+  // already in the document.
+  const { data: savedBoard } = useQuery<Board>({ queryKey: ["/api/boards", boardId] });
+  const seededRef = useRef(false);
+  useEffect(() => {
+    if (!savedBoard || seededRef.current) return;
+    seededRef.current = true;
+    const version = new Date(savedBoard.updatedAt).toISOString();
+    if (doc.seed(savedBoard.items as BoardItem[], version)) {
+      itemsRef.current = resolveConnectors(doc.items());
+      setItems(itemsRef.current);
+    }
+    // Whatever peers synced before the board loaded is theirs to save.
+    markSaved(itemsRef.current);
+  }, [doc, savedBoard, markSaved]);
+
+  // Every local change to the board goes through here: the document records
+  // it as register writes and peers receive exactly those writes. Connectors
+  // attached to items that moved are brought along in the same change. The
+  // change joins the current undo step unless `record` is false.
+  const applyItems = useCallback(
+    (update: BoardItem[] | ((prev: BoardItem[]) => BoardItem[]), record = true) => {
+      const prev = doc.items();
+      const next = resolveConnectors(typeof update === "function" ? update(prev) : update);
+      const delta = doc.commit(next);
+      itemsRef.current = doc.items();
+      setItems(itemsRef.current);
+      if (!delta) return;
+      broadcastDelta(delta);
+      const { past } = historyRef.current;
+      if (record && past.length > 0) recordChange(past[past.length - 1], prev, itemsRef.current);
+    },
+    [doc, broadcastDelta],
+  );
+
+  const patchItem = useCallback(
+    (id: string, patch: ItemPatch) => {
+      applyItems((prev) => prev.map((it) => (it.data.id === id ? applyItemPatch(it, patch) : it)));
+    },
+    [applyItems],
+  );
+
+  const removeItems = useCallback(
+    (ids: string[]) => {
+      const removed = new Set(ids);
+      applyItems((prev) => prev.filter((it) => !removed.has(it.data.id)));
+    },
+    [applyItems],
   );
 
   const updateItemBounds = useCallback(
     (
       id: string,
-      b: { x: number; y: number; w: number; h: number; fontSize?: number },
+      b: { x: number; y: number; w: number; h: number; fontSize?: number; width?: number },
     ) => {
-      setItems((prev) =>
-        prev.map((it) => {
-          if (it.type === "image" && it.data.id === id) {
-            return { type: "image", data: { ...it.data, x: b.x, y: b.y, width: b.w, height: b.h } };
-          }
-          if (it.type === "shape" && it.data.id === id) {
-            return { type: "shape", data: { ...it.data, x: b.x, y: b.y, w: b.w, h: b.h } };
-          }
-          if (it.type === "text" && it.data.id === id) {
-            return {
-              type: "text",
-              data: {
-                ...it.data,
-                x: b.x,
-                y: b.y,
-                fontSize: b.fontSize ?? it.data.fontSize,
-              },
-            };
-          }
-          return it;
-        }),
-      );
+      const target = itemsRef.current.find((it) => it.data.id === id);
+      if (!target) return;
+      if (target.type === "image") {
+        patchItem(id, { x: b.x, y: b.y, width: b.w, height: b.h });
+      } else if (target.type === "shape") {
+        patchItem(id, { x: b.x, y: b.y, w: b.w, h: b.h });
+      } else if (target.type === "text") {
+        patchItem(id, {
+          x: b.x,
+          y: b.y,
+          fontSize: b.fontSize ?? target.data.fontSize,
+          ...(b.width !== undefined && { width: b.width }),
+        });
+      }
     },
-    [],
+    [patchItem],
   );
 
-  const findBounds = useCallback(
-    (id: string | null): Bounds | null => {
-      if (!id) return null;
-      const f = items.find(
-        (it) =>
-          (it.type === "image" && it.data.id === id) ||
-          (it.type === "shape" && it.data.id === id) ||
-          (it.type === "text" && it.data.id === id),
-      );
-      return f ? itemBounds(f) : null;
+  const selectedItems = useMemo(() => {
+    const ids = new Set(selectedIds);
+    return items.filter((it) => ids.has(it.data.id));
+  }, [items, selectedIds]);
+
+  // The box drawn around the selection, with the handles it offers. `single`
+  // is set when one item is selected.
+  const selectionBox = useMemo(() => {
+    const bounds = selectedItems.map(itemBounds).filter((b): b is Bounds => b !== null);
+    if (bounds.length === 1) {
+      const single = bounds[0];
+      return { x: single.x, y: single.y, w: single.w, h: single.h, handles: handlesForType(single.type), single };
+    }
+    const box = unionBounds(bounds);
+    return box ? { ...box, handles: SCALE_HANDLES, single: null } : null;
+  }, [selectedItems]);
+
+  // Topmost selectable item at a board point.
+  const itemAt = useCallback(
+    (p: Point): string | null => {
+      const tolerance = 4 / viewport.zoom;
+      const near = liveIndex
+        .update(items)
+        .query({ x: p.x - tolerance, y: p.y - tolerance, w: tolerance * 2, h: tolerance * 2 });
+      for (let i = near.length - 1; i >= 0; i--) {
+        const it = near[i];
+        if (itemBounds(it) && hitsItem(p, it, tolerance)) return it.data.id;
+      }
+      return null;
     },
-    [items],
+    [items, liveIndex, viewport.zoom],
   );
 
+  // Shapes keep their own fill opacity in the new color.
   const recolorSelected = useCallback(
-    (stroke: string, nextFill: string) => {
-      if (!selectedId) return;
-      const target = itemsRef.current.find(
-        (it) =>
-          (it.type === "shape" || it.type === "text") && it.data.id === selectedId,
-      );
-      if (!target) return;
+    (stroke: string) => {
+      const ids = new Set(selectedIds);
+      if (!itemsRef.current.some((it) => ids.has(it.data.id) && it.type !== "image")) return;
       commitHistory();
-      setItems((prev) =>
+      applyItems((prev) =>
         prev.map((it) => {
-          if (it.type === "shape" && it.data.id === selectedId) {
-            return { type: "shape", data: { ...it.data, stroke, fill: nextFill } };
+          if (!ids.has(it.data.id)) return it;
+          if (it.type === "shape") {
+            return applyItemPatch(it, { stroke, fill: makeShapeFill(stroke, getFillOpacity(it.data.fill)) });
           }
-          if (it.type === "text" && it.data.id === selectedId) {
-            return { type: "text", data: { ...it.data, color: stroke } };
+          if (it.type === "text" || it.type === "stroke" || it.type === "connector") {
+            return applyItemPatch(it, { color: stroke });
           }
           return it;
         }),
       );
     },
-    [selectedId, commitHistory],
+    [selectedIds, commitHistory, applyItems],
   );
 
   const applyFillOpacity = useCallback(
     (opacity: number) => {
       const o = clamp(opacity, 0, 1);
       setFillOpacity(o);
-      const selectedShape = itemsRef.current.find(
-        (it): it is { type: "shape"; data: Shape } =>
-          it.type === "shape" && it.data.id === selectedId,
+      const ids = new Set(selectedIds);
+      const shapes = itemsRef.current.filter(
+        (it): it is { type: "shape"; data: Shape } => it.type === "shape" && ids.has(it.data.id),
       );
-      const strokeForFill = selectedShape?.data.stroke ?? color;
-      const nextFill = makeShapeFill(strokeForFill, o);
-      setFill(nextFill);
-      if (!selectedId || !selectedShape) return;
+      setFill(makeShapeFill(shapes[0]?.data.stroke ?? color, o));
+      if (shapes.length === 0) return;
       commitHistory();
-      setItems((prev) =>
+      applyItems((prev) =>
         prev.map((it) =>
-          it.type === "shape" && it.data.id === selectedId
-            ? { type: "shape", data: { ...it.data, fill: makeShapeFill(it.data.stroke, o) } }
+          it.type === "shape" && ids.has(it.data.id)
+            ? applyItemPatch(it, { fill: makeShapeFill(it.data.stroke, o) })
             : it,
         ),
       );
     },
-    [selectedId, color, commitHistory],
+    [selectedIds, color, commitHistory, applyItems],
   );
 
   const applyFontSize = useCallback(
@@ -683,22 +1214,36 @@ export default function WhiteboardPage() {
         setEditingText((curr) => (curr ? { ...curr, fontSize: sz } : curr));
         return;
       }
-      if (!selectedId) return;
-      const text = itemsRef.current.find(
-        (it): it is { type: "text"; data: TextItem } =>
-          it.type === "text" && it.data.id === selectedId,
+      const ids = new Set(selectedIds);
+      if (!itemsRef.current.some((it) => it.type === "text" && ids.has(it.data.id))) return;
+      commitHistory();
+      applyItems((prev) =>
+        prev.map((it) =>
+          it.type === "text" && ids.has(it.data.id) ? applyItemPatch(it, { fontSize: sz }) : it,
+        ),
       );
-      if (!text) return;
+    },
+    [selectedIds, commitHistory, applyItems],
+  );
+
+  // Like applyFontSize, for alignment, font, weight and line height.
+  const applyTextStyle = useCallback(
+    (patch: TextStyle) => {
+      setTextStyle((curr) => ({ ...curr, ...patch }));
+      if (editingTextRef.current) {
+        setEditingText((curr) => (curr ? { ...curr, style: { ...curr.style, ...patch } } : curr));
+        return;
+      }
+      const ids = new Set(selectedIds);
+      if (!itemsRef.current.some((it) => it.type === "text" && ids.has(it.data.id))) return;
       commitHistory();
-      setItems((prev) =>
+      applyItems((prev) =>
         prev.map((it) =>
-          it.type === "text" && it.data.id === selectedId
-            ? { type: "text", data: { ...it.data, fontSize: sz } }
-            : it,
+          it.type === "text" && ids.has(it.data.id) ? applyItemPatch(it, patch) : it,
         ),
       );
     },
-    [selectedId, commitHistory],
+    [selectedIds, commitHistory, applyItems],
   );
 
   useEffect(() => {
@@ -724,91 +1269,176 @@ export default function WhiteboardPage() {
       setColor(text.data.color);
       setCustomColor(text.data.color);
       setFontSize(Math.round(text.data.fontSize));
+      setTextStyle(pickTextStyle(text.data));
+      return;
+    }
+    const stroke = itemsRef.current.find(
+      (it): it is { type: "stroke"; data: Stroke } =>
+        it.type === "stroke" && it.data.id === selectedId,
+    );
+    if (stroke) {
+      setColor(stroke.data.color);
+      setCustomColor(stroke.data.color);
+      return;
     }
+    const connector = itemsRef.current.find(
+      (it): it is { type: "connector"; data: Connector } =>
+        it.type === "connector" && it.data.id === selectedId,
+    );
+    if (connector) {
+      const { color, routing, startArrow, endArrow } = connector.data;
+      setColor(color);
+      setCustomColor(color);
+      setConnectorStyle({ routing, startArrow, endArrow });
+      return;
+    }
+    const note = itemsRef.current.find(
+      (it): it is { type: "sticky"; data: StickyNote } =>
+        it.type === "sticky" && it.data.id === selectedId,
+    );
+    if (note) setStickyColor(note.data.color);
   }, [selectedId]);
 
-  const reorderSelected = useCallback(
-    (mode: "front" | "back" | "forward" | "backward") => {
-      if (!selectedId) return;
-      const prev = itemsRef.current;
-      const idx = prev.findIndex(
-        (it) =>
-          (it.type === "image" || it.type === "shape" || it.type === "text") &&
-          it.data.id === selectedId,
-      );
-      if (idx === -1) return;
-      let target = idx;
-      if (mode === "front") target = prev.length - 1;
-      else if (mode === "back") target = 0;
-      else if (mode === "forward") target = Math.min(prev.length - 1, idx + 1);
-      else target = Math.max(0, idx - 1);
-      if (target === idx) return;
+  const applyConnectorStyle = useCallback(
+    (patch: Partial<ConnectorStyle>) => {
+      setConnectorStyle((curr) => ({ ...curr, ...patch }));
+      const ids = new Set(selectedIds);
+      if (!itemsRef.current.some((it) => it.type === "connector" && ids.has(it.data.id))) return;
       commitHistory();
-      const next = prev.slice();
-      const [moved] = next.splice(idx, 1);
-      next.splice(target, 0, moved);
-      setItems(next);
+      applyItems((prev) =>
+        prev.map((it) =>
+          it.type === "connector" && ids.has(it.data.id) ? applyItemPatch(it, patch) : it,
+        ),
+      );
     },
-    [selectedId, commitHistory],
+    [selectedIds, commitHistory, applyItems],
   );
 
-  // Collaboration: handle remote operations
-  const handleRemoteDraw = useCallback((item: BoardItem) => {
-    setItems((prev) => [...prev, item]);
-    setFuture([]);
-  }, []);
-
-  const handleRemoteClear = useCallback(() => {
-    setItems([]);
-    setPast([]);
-    setFuture([]);
-    setActiveShape(null);
-    setActiveStroke(null);
-  }, []);
+  // Note colors come from their own palette, so they are set apart from the
+  // ink color.
+  const applyStickyColor = useCallback(
+    (next: string) => {
+      setStickyColor(next);
+      const ids = new Set(selectedIds);
+      if (!itemsRef.current.some((it) => it.type === "sticky" && ids.has(it.data.id))) return;
+      commitHistory();
+      applyItems((prev) =>
+        prev.map((it) =>
+          it.type === "sticky" && ids.has(it.data.id)
+            ? { type: "sticky", data: { ...it.data, color: next } }
+            : it,
+        ),
+      );
+    },
+    [selectedIds, commitHistory, applyItems],
+  );
 
-  // Sync callbacks for collaboration
-  const handleSyncRequest = useCallback((itemCount: number): BoardItem[] => {
-    // Use ref to get current items and avoid stale closure
-    const currentItems = itemsRef.current;
-    console.log(`[Whiteboard] Sync request: peer has ${itemCount}, I have ${currentItems.length} items`);
-    if (currentItems.length > itemCount) {
-      console.log(`[Whiteboard] Sending ${currentItems.length} items to peer`);
-      return currentItems;
-    }
-    console.log(`[Whiteboard] Not sending items (peer has equal or more)`);
-    return [];
-  }, []);
+  const reorderSelected = useCallback(
+    (mode: ReorderMode) => {
+      if (selectedIds.length === 0) return;
+      const prev = itemsRef.current;
+      const next = reorderItems(prev, new Set(selectedIds), mode);
+      if (next.every((it, i) => it === prev[i])) return;
+      commitHistory();
+      applyItems(next);
+    },
+    [selectedIds, commitHistory, applyItems],
+  );
 
-  const handleSyncReceive = useCallback((newItems: BoardItem[]) => {
-    console.log(`[Whiteboard] Received sync with ${newItems.length} items`);
-    // Merge received items with our current items (avoiding duplicates by ID)
-    setItems(prev => {
-      const existingIds = new Set(prev.map(item => 
-        item.type === "stroke" ? item.data.id : 
-        item.type === "shape" ? item.data.id : 
-        item.data.id
-      ));
-      const uniqueNewItems = newItems.filter(item => {
-        const id = item.type === "stroke" ? item.data.id : 
-                   item.type === "shape" ? item.data.id : 
-                   item.data.id;
-        return !existingIds.has(id);
+  const deleteSelected = useCallback(() => {
+    if (selectedIds.length === 0) return;
+    commitHistory();
+    removeItems(selectedIds);
+    setSelectedIds([]);
+  }, [selectedIds, commitHistory, removeItems]);
+
+  // Resolves to whether the selection made it onto the clipboard.
+  const copySelected = useCallback(async () => {
+    if (selectedItems.length === 0) return false;
+    try {
+      await writeItemsToClipboard(selectedItems);
+      return true;
+    } catch {
+      toast({
+        title: "Couldn't copy",
+        description: "The browser didn't allow access to the clipboard.",
+        variant: "destructive",
       });
-      return [...prev, ...uniqueNewItems];
-    });
-    setFuture([]);
-  }, []);
+      return false;
+    }
+  }, [selectedItems]);
+
+  // Only deletes once the copy has succeeded, so a refused clipboard never
+  // loses the selection.
+  const cutSelected = useCallback(async () => {
+    if (await copySelected()) deleteSelected();
+  }, [copySelected, deleteSelected]);
+
+  const duplicateSelected = useCallback(() => {
+    if (selectedItems.length === 0) return;
+    const copies = withNewIds(selectedItems).map((it) =>
+      translateItem(it, DUPLICATE_OFFSET, DUPLICATE_OFFSET),
+    );
+    commitHistory();
+    applyItems((prev) => [...prev, ...copies]);
+    setSelectedIds(copies.map((it) => it.data.id));
+  }, [selectedItems, commitHistory, applyItems]);
+
+  const viewportCenter = useCallback((): Point => {
+    const container = containerRef.current;
+    if (!container) return { x: 200, y: 200 };
+    const rect = container.getBoundingClientRect();
+    return toCanvasPoint(rect.left + rect.width / 2, rect.top + rect.height / 2, viewport, rect);
+  }, [viewport]);
+
+  // Adds an image centered on `at`.
+  const addImageFile = useCallback(
+    async (file: File, at: Point) => {
+      const image = await readImageFile(file);
+      if (!image) return;
+      const newId = uid();
+      commitHistory();
+      applyItems((prev) => [
+        ...prev,
+        {
+          type: "image",
+          data: { id: newId, x: at.x - image.width / 2, y: at.y - image.height / 2, ...image },
+        },
+      ]);
+      setSelectedIds([newId]);
+      setTool("select");
+    },
+    [commitHistory, applyItems],
+  );
 
-  const {
-    myName,
-    myColor,
-    remotePeers,
-    isConnected,
-    peerCount,
-    broadcastCursor,
-    broadcastDraw,
-    broadcastClear,
-  } = useCollaboration(handleRemoteDraw, handleRemoteClear, handleSyncRequest, handleSyncReceive);
+  // Pasted items keep their layout, centered under the pointer, with fresh
+  // ids so pasting twice doesn't clash. Text becomes a text item in the
+  // current color and size.
+  const pasteContent = useCallback(
+    (content: ClipboardContent) => {
+      const at = lastPointerRef.current ?? viewportCenter();
+      if (content.kind === "image") {
+        void addImageFile(content.file, at);
+        return;
+      }
+      let pasted: BoardItem[];
+      if (content.kind === "items") {
+        const bounds = contentBounds(content.items);
+        const dx = bounds ? at.x - (bounds.x + bounds.w / 2) : 0;
+        const dy = bounds ? at.y - (bounds.y + bounds.h / 2) : 0;
+        pasted = withNewIds(content.items).map((it) => translateItem(it, dx, dy));
+      } else {
+        pasted = [
+          { type: "text", data: { id: uid(), x: at.x, y: at.y, text: content.text, color, fontSize } },
+        ];
+      }
+      commitHistory();
+      applyItems((prev) => [...prev, ...pasted]);
+      setSelectedIds(pasted.map((it) => it.data.id));
+      setTool("select");
+    },
+    [viewportCenter, addImageFile, color, fontSize, commitHistory, applyItems],
+  );
 
   const displayedZoomPct = useMemo(() => formatPct(zoom), [zoom]);
 
@@ -823,257 +1453,188 @@ export default function WhiteboardPage() {
     // This interval is kept for any additional cleanup if needed
   }, 1000);
 
+  // Frames are painted on demand: whatever changes the picture asks for one,
+  // and an idle board schedules nothing. Peer cursors are DOM overlays and
+  // never need a canvas frame.
+  const drawRef = useRef<() => void>(() => {});
+  const requestPaint = useCallback(() => {
+    if (rafRef.current !== null) return;
+    rafRef.current = window.requestAnimationFrame(() => {
+      rafRef.current = null;
+      drawRef.current();
+    });
+  }, []);
+
+  // The scene renderer owns the canvas pixels, in a worker where possible.
+  // It is created once the canvas is mounted. A canvas it can no longer draw
+  // on (its worker crashed after taking it) is replaced by bumping its key.
+  const sceneRef = useRef<SceneHost | null>(null);
+  const [canvasKey, setCanvasKey] = useState(0);
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const scene = new SceneHost(canvas, () => setCanvasKey((k) => k + 1));
+    sceneRef.current = scene;
+    requestPaint();
+    return () => {
+      scene.dispose();
+      sceneRef.current = null;
+    };
+  }, [requestPaint, canvasKey]);
+
   const draw = useMemo(() => {
     return () => {
       const canvas = canvasRef.current;
       const container = containerRef.current;
-      if (!canvas || !container) return;
+      const scene = sceneRef.current;
+      if (!canvas || !container || !scene) return;
 
-      const dpr = window.devicePixelRatio || 1;
       const rect = container.getBoundingClientRect();
-
       const w = Math.max(1, Math.floor(rect.width));
       const h = Math.max(1, Math.floor(rect.height));
-
-      // Initialize or resize main canvas
-      if (canvas.width !== Math.floor(w * dpr) || canvas.height !== Math.floor(h * dpr)) {
-        canvas.width = Math.floor(w * dpr);
-        canvas.height = Math.floor(h * dpr);
+      if (canvas.style.width !== `${w}px` || canvas.style.height !== `${h}px`) {
         canvas.style.width = `${w}px`;
         canvas.style.height = `${h}px`;
       }
 
-      // Initialize or resize content canvas (offscreen)
-      let contentCanvas = contentCanvasRef.current;
-      if (!contentCanvas) {
-        contentCanvas = document.createElement("canvas");
-        contentCanvasRef.current = contentCanvas;
+      // Whatever is still being drawn goes on top of the committed items.
+      const live: BoardItem[] = [];
+      if (activeShape) live.push({ type: "shape", data: activeShape });
+      if (activeStroke) live.push({ type: "stroke", data: activeStroke });
+      if (activeConnector) live.push({ type: "connector", data: activeConnector });
+
+      let selection: SelectionChrome | null = null;
+      const box = selectionBox;
+      if (tool === "select" && box) {
+        const hs = 10 / viewport.zoom;
+        const handles = getHandleRects(box, hs);
+        const single = box.single;
+        // A connector's handles sit on its two ends.
+        const only = selectedItems.length === 1 ? selectedItems[0] : null;
+        const ends = only?.type === "connector" ? [only.data.start, only.data.end] : [];
+        selection = {
+          rect: { x: box.x, y: box.y, w: box.w, h: box.h },
+          handles: [
+            ...box.handles.map((k) => handles[k]),
+            ...ends.map((e) => ({ x: e.x - hs / 2, y: e.y - hs / 2, w: hs, h: hs })),
+          ],
+          // In a group, each member gets a thin outline of its own.
+          outlines: single
+            ? []
+            : selectedItems.map(itemBounds).filter((b): b is Bounds => b !== null),
+          label: !single
+            ? `${selectedItems.length} items`
+            : single.type === "text" && single.fontSize !== undefined
+              ? `${Math.round(single.fontSize)}px`
+              : `${Math.round(single.w)} × ${Math.round(single.h)}`,
+        };
       }
-      if (contentCanvas.width !== Math.floor(w * dpr) || contentCanvas.height !== Math.floor(h * dpr)) {
-        contentCanvas.width = Math.floor(w * dpr);
-        contentCanvas.height = Math.floor(h * dpr);
-      }
-
-      const ctx = canvas.getContext("2d");
-      const contentCtx = contentCanvas.getContext("2d");
-      if (!ctx || !contentCtx) return;
-
-      // ===== DRAW CONTENT LAYER (offscreen) =====
-      contentCtx.save();
-      contentCtx.scale(dpr, dpr);
-      
-      // Clear content canvas to transparent
-      contentCtx.clearRect(0, 0, w, h);
-      
-      // Apply viewport transform for content
-      contentCtx.translate(viewport.x, viewport.y);
-      contentCtx.scale(viewport.zoom, viewport.zoom);
-
-      const editingId = editingText?.id ?? null;
-      const all: BoardItem[] = items.filter(
-        (it) => !(editingId && it.type === "text" && it.data.id === editingId),
-      );
-      if (activeShape) all.push({ type: "shape", data: activeShape });
-      // Include active stroke on content layer so eraser preview shows correctly
-      if (activeStroke) all.push({ type: "stroke", data: activeStroke });
-
-      for (const item of all) {
-        if (item.type === "stroke") {
-          const s = item.data;
-          if (s.points.length < 2) continue;
-
-          contentCtx.lineCap = "round";
-          contentCtx.lineJoin = "round";
-          contentCtx.lineWidth = s.size;
-          
-          if (s.tool === "eraser") {
-            // Apply eraser effect on content layer only
-            contentCtx.globalCompositeOperation = "destination-out";
-            contentCtx.strokeStyle = "rgba(0,0,0,1)";
-          } else {
-            contentCtx.globalCompositeOperation = "source-over";
-            contentCtx.strokeStyle = s.color;
-          }
-
-          contentCtx.beginPath();
-          contentCtx.moveTo(s.points[0].x, s.points[0].y);
-          for (let i = 1; i < s.points.length; i++) {
-            const p = s.points[i];
-            contentCtx.lineTo(p.x, p.y);
-          }
-          contentCtx.stroke();
-          contentCtx.globalCompositeOperation = "source-over";
-        }
-
-        if (item.type === "shape") {
-          const sh = item.data;
-          contentCtx.globalCompositeOperation = "source-over";
-          contentCtx.lineWidth = sh.strokeWidth;
-          contentCtx.strokeStyle = sh.stroke;
-          contentCtx.fillStyle = sh.fill;
-
-          if (sh.kind === "rect") {
-            contentCtx.beginPath();
-            contentCtx.rect(sh.x, sh.y, sh.w, sh.h);
-            contentCtx.fill();
-            contentCtx.stroke();
-          } else {
-            const cx = sh.x + sh.w / 2;
-            const cy = sh.y + sh.h / 2;
-            const rx = Math.abs(sh.w / 2);
-            const ry = Math.abs(sh.h / 2);
-            contentCtx.beginPath();
-            contentCtx.ellipse(cx, cy, rx, ry, 0, 0, Math.PI * 2);
-            contentCtx.fill();
-            contentCtx.stroke();
-          }
-        }
-
-        if (item.type === "text") {
-          const t = item.data;
-          contentCtx.globalCompositeOperation = "source-over";
-          contentCtx.fillStyle = t.color;
-          contentCtx.font = `500 ${t.fontSize}px ${TEXT_FONT_STACK}`;
-          contentCtx.textBaseline = "top";
-          const lines = t.text.split("\n");
-          for (let i = 0; i < lines.length; i++) {
-            contentCtx.fillText(lines[i], t.x, t.y + i * textLineHeight(t.fontSize));
-          }
-        }
-
-        if (item.type === "image") {
-          const im = item.data;
-          contentCtx.globalCompositeOperation = "source-over";
-          let cached = imageCacheRef.current.get(im.src);
-          if (!cached) {
-            const img = new Image();
-            img.src = im.src;
-            imageCacheRef.current.set(im.src, img);
-            cached = img;
-          }
-          if (cached.complete && cached.naturalWidth > 0) {
-            contentCtx.drawImage(cached, im.x, im.y, im.width, im.height);
-          }
-        }
-      }
-
-      if (tool === "select" && selectedId) {
-        const selEntry = items.find(
-          (it) =>
-            (it.type === "image" && it.data.id === selectedId) ||
-            (it.type === "shape" && it.data.id === selectedId) ||
-            (it.type === "text" && it.data.id === selectedId),
-        );
-        const sel = selEntry ? itemBounds(selEntry) : null;
-        if (sel) {
-          contentCtx.save();
-          contentCtx.globalCompositeOperation = "source-over";
-          const z = viewport.zoom;
-          contentCtx.strokeStyle = "#3175F1";
-          contentCtx.lineWidth = 1.5 / z;
-          contentCtx.setLineDash([6 / z, 4 / z]);
-          contentCtx.strokeRect(sel.x, sel.y, sel.w, sel.h);
-          contentCtx.setLineDash([]);
-
-          const hs = 10 / z;
-          const handles = getHandleRects(sel, hs);
-          const handleKeys = handlesForType(sel.type);
-          contentCtx.lineWidth = 1 / z;
-          for (const k of handleKeys) {
-            const r = handles[k];
-            contentCtx.fillStyle = "#ffffff";
-            contentCtx.fillRect(r.x, r.y, r.w, r.h);
-            contentCtx.strokeStyle = "#3175F1";
-            contentCtx.strokeRect(r.x, r.y, r.w, r.h);
+      const area = selectionArea
+        ? selectionArea.kind === "lasso"
+          ? selectionArea.points
+          : rectPolygon(selectionArea.points[0], selectionArea.points[selectionArea.points.length - 1])
+        : null;
+
+      // Once a drag has moved something, the dragged items and connectors
+      // attached to them are lifted out of the tiles until it ends.
+      const lifted = new Set<string>();
+      if (dragMode && !dragPreSnapshotRef.current) {
+        if (dragMode.kind === "endpoint") lifted.add(dragMode.id);
+        else selectedIds.forEach((id) => lifted.add(id));
+        for (const it of items) {
+          if (it.type !== "connector") continue;
+          const { start, end } = it.data;
+          if ((start.bind && lifted.has(start.bind.id)) || (end.bind && lifted.has(end.bind.id))) {
+            lifted.add(it.data.id);
           }
-
-          const label =
-            sel.type === "text" && sel.fontSize !== undefined
-              ? `${Math.round(sel.fontSize)}px`
-              : `${Math.round(sel.w)} × ${Math.round(sel.h)}`;
-          const pillFontSize = 11 / z;
-          contentCtx.font = `500 ${pillFontSize}px ${TEXT_FONT_STACK}`;
-          contentCtx.textBaseline = "top";
-          const padX = 6 / z;
-          const padY = 3 / z;
-          const textW = contentCtx.measureText(label).width;
-          const boxW = textW + padX * 2;
-          const boxH = pillFontSize + padY * 2;
-          const labelX = sel.x + sel.w / 2 - boxW / 2;
-          const labelY = sel.y + sel.h + 8 / z;
-          contentCtx.fillStyle = "#3175F1";
-          contentCtx.fillRect(labelX, labelY, boxW, boxH);
-          contentCtx.fillStyle = "#ffffff";
-          contentCtx.fillText(label, labelX + padX, labelY + padY);
-          contentCtx.restore();
         }
       }
 
-      contentCtx.restore();
-
-      // ===== DRAW MAIN CANVAS (background + grid + content) =====
-      ctx.save();
-      ctx.scale(dpr, dpr);
-
-      // Clear
-      ctx.clearRect(0, 0, w, h);
-
-      // Background
-      ctx.fillStyle = "#F7FAFC";
-      ctx.fillRect(0, 0, w, h);
-
-      // Grid
-      const gridSize = 22;
-      ctx.beginPath();
-      ctx.strokeStyle = "rgba(45,55,72,0.10)";
-      ctx.lineWidth = 1;
-      for (let x = (viewport.x % (gridSize * viewport.zoom)); x < w; x += gridSize * viewport.zoom) {
-        ctx.moveTo(x, 0);
-        ctx.lineTo(x, h);
-      }
-      for (let y = (viewport.y % (gridSize * viewport.zoom)); y < h; y += gridSize * viewport.zoom) {
-        ctx.moveTo(0, y);
-        ctx.lineTo(w, y);
-      }
-      ctx.stroke();
+      scene.setItems(preview ? (preview.items as BoardItem[]) : items);
+      scene.setFrame({
+        width: w,
+        height: h,
+        dpr: window.devicePixelRatio || 1,
+        viewport: { x: viewport.x, y: viewport.y, zoom: viewport.zoom },
+        live,
+        lifted: Array.from(lifted),
+        hiddenId: editingText?.id ?? null,
+        selection,
+        selectionArea: area,
+      });
+    };
+  }, [activeShape, activeStroke, activeConnector, items, preview, viewport.x, viewport.y, viewport.zoom, selectionBox, selectedItems, selectedIds, selectionArea, tool, editingText, dragMode]);
+  drawRef.current = draw;
 
-      // Composite content layer on top (now with transparent holes where eraser was used)
-      ctx.drawImage(contentCanvas, 0, 0, w, h);
+  // `draw` is rebuilt whenever items, viewport, selection, tool or the
+  // in-progress stroke/shape change, so a new one means the frame is stale.
+  useEffect(() => {
+    requestPaint();
+  }, [draw, requestPaint]);
 
-      ctx.restore();
+  useEffect(() => {
+    return () => {
+      if (rafRef.current !== null) window.cancelAnimationFrame(rafRef.current);
+      rafRef.current = null;
     };
-  }, [activeShape, activeStroke, items, viewport.x, viewport.y, viewport.zoom, selectedId, tool, editingText]);
+  }, []);
 
   useEffect(() => {
-    const loop = () => {
-      draw();
-      rafRef.current = window.requestAnimationFrame(loop);
+    const container = containerRef.current;
+    const observer = new ResizeObserver(requestPaint);
+    if (container) observer.observe(container);
+    // Browser zoom and moving to another screen change devicePixelRatio
+    // without resizing the container.
+    window.addEventListener("resize", requestPaint);
+    // Text is measured and drawn with the web font once it arrives, so cached
+    // text extents are stale from then on.
+    const onFontsLoaded = () => {
+      resetExtentCache();
+      liveIndex.reset();
+      sceneRef.current?.fontsChanged();
+      requestPaint();
     };
-    rafRef.current = window.requestAnimationFrame(loop);
+    document.fonts?.addEventListener("loadingdone", onFontsLoaded);
     return () => {
-      if (rafRef.current) window.cancelAnimationFrame(rafRef.current);
+      observer.disconnect();
+      window.removeEventListener("resize", requestPaint);
+      document.fonts?.removeEventListener("loadingdone", onFontsLoaded);
     };
-  }, [draw]);
-
-  useEffect(() => {
-    const onResize = () => draw();
-    window.addEventListener("resize", onResize);
-    return () => window.removeEventListener("resize", onResize);
-  }, [draw]);
+  }, [liveIndex, requestPaint]);
 
   const pushItem = (item: BoardItem) => {
     commitHistory();
-    setItems((prev) => [...prev, item]);
-    broadcastDraw(item);
+    applyItems((prev) => [...prev, item]);
   };
 
   const commitText = useCallback(() => {
     const e = editingTextRef.current;
     if (!e) return;
     editingTextRef.current = null;
-    const raw = editorContentRef.current ?? e.content;
-    const text = raw.replace(/\s+$/g, "");
+    const paragraphs = trimRichEnd(editorContentRef.current);
+    const text = richPlainText(paragraphs);
+    const rich = isPlainRich(paragraphs) ? undefined : paragraphs;
     setEditingText(null);
+    setLinkDraft(null);
+    if (e.note) {
+      // A note stays even when it is empty.
+      if (e.isNew) {
+        const note: BoardItem = {
+          type: "sticky",
+          data: { id: e.id, x: e.x, y: e.y, size: e.note.size, text, color: e.note.color },
+        };
+        commitHistory();
+        applyItems((prev) => [...prev, note]);
+        setSelectedIds([e.id]);
+        setTool("select");
+        return;
+      }
+      const current = itemsRef.current.find((it) => it.data.id === e.id);
+      if (current?.type !== "sticky" || current.data.text === text) return;
+      commitHistory();
+      patchItem(e.id, { text });
+      return;
+    }
     if (e.isNew) {
       if (text.length === 0) return;
       const item: BoardItem = {
@@ -1085,38 +1646,33 @@ export default function WhiteboardPage() {
           text,
           color: e.color,
           fontSize: e.fontSize,
+          ...(rich && { rich }),
+          ...e.style,
         },
       };
       commitHistory();
-      setItems((prev) => [...prev, item]);
-      broadcastDraw(item);
+      applyItems((prev) => [...prev, item]);
       return;
     }
     commitHistory();
     if (text.length === 0) {
-      setItems((prev) =>
-        prev.filter((it) => !(it.type === "text" && it.data.id === e.id)),
-      );
-      setSelectedId((curr) => (curr === e.id ? null : curr));
+      removeItems([e.id]);
+      setSelectedIds((ids) => ids.filter((id) => id !== e.id));
       return;
     }
-    setItems((prev) =>
-      prev.map((it) =>
-        it.type === "text" && it.data.id === e.id
-          ? { type: "text", data: { ...it.data, text, color: e.color, fontSize: e.fontSize } }
-          : it,
-      ),
-    );
-  }, [broadcastDraw, commitHistory]);
+    patchItem(e.id, { text, rich, color: e.color, fontSize: e.fontSize, ...e.style });
+  }, [applyItems, commitHistory, patchItem, removeItems]);
 
   useLayoutEffect(() => {
     if (!editingText) return;
     const el = editorRef.current;
     if (!el) return;
-    editorContentRef.current = editingText.content;
-    if (el.innerText !== editingText.content) {
+    if (editingText.rich) {
+      el.replaceChildren(richTextFragment(editingText.rich));
+    } else if (el.innerText !== editingText.content) {
       el.innerText = editingText.content;
     }
+    editorContentRef.current = editingText.rich ?? plainParagraphs(editingText.content);
     el.dataset.empty = editingText.content.length === 0 ? "true" : "false";
 
     // Point (in client space) where the caret should land; null => end of text.
@@ -1157,23 +1713,31 @@ export default function WhiteboardPage() {
 
   useEffect(() => {
     if (!editingText) return;
+    const inEditor = (target: EventTarget | null) =>
+      [editorRef.current, editorToolbarRef.current].some((el) => el?.contains(target as Node));
     const onDocDown = (ev: PointerEvent) => {
-      const editorEl = editorRef.current;
-      if (editorEl && editorEl.contains(ev.target as Node)) return;
+      if (inEditor(ev.target)) return;
       commitText();
     };
     const onKey = (ev: KeyboardEvent) => {
-      if (ev.key === "Escape") {
+      // Escape in the link field only closes the field.
+      if (ev.key === "Escape" && !editorToolbarRef.current?.contains(ev.target as Node)) {
         ev.preventDefault();
         ev.stopPropagation();
         commitText();
       }
     };
+    const onSelectionChange = () => {
+      if (editingText.note || !editorRef.current?.contains(document.activeElement)) return;
+      setTextFormats(activeTextFormats());
+    };
     document.addEventListener("pointerdown", onDocDown, true);
     document.addEventListener("keydown", onKey, true);
+    document.addEventListener("selectionchange", onSelectionChange);
     return () => {
       document.removeEventListener("pointerdown", onDocDown, true);
       document.removeEventListener("keydown", onKey, true);
+      document.removeEventListener("selectionchange", onSelectionChange);
     };
   }, [editingText, commitText]);
 
@@ -1187,54 +1751,98 @@ export default function WhiteboardPage() {
     // Don't capture the pointer for the text tool: capture keeps focus on the
     // canvas and prevents the contentEditable editor from grabbing it on the
     // first click (which is what made text take two clicks to start).
-    if (tool !== "text") {
+    if (tool !== "text" && tool !== "sticky") {
       (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
     }
     setIsPointerDown(true);
     if (contextMenu) setContextMenu(null);
 
-    if (tool === "hand" || (tool === "select" && (e.button === 1 || e.ctrlKey || e.metaKey))) {
+    if (
+      preview ||
+      tool === "hand" ||
+      (tool === "select" && (e.button === 1 || e.ctrlKey || e.metaKey))
+    ) {
       setIsPanning(true);
       setPanStart({ x: e.clientX, y: e.clientY, vx: viewport.x, vy: viewport.y });
       return;
     }
 
     if (tool === "select") {
-      const selected = findBounds(selectedId);
-      if (selected) {
-        const h = hitHandle(p, selected, viewport.zoom, handlesForType(selected.type));
+      const endpoint = connectorEndpointAt(p);
+      if (endpoint) {
+        dragPreSnapshotRef.current = itemsRef.current;
+        setDragMode({ kind: "endpoint", startMouse: p, ...endpoint });
+        return;
+      }
+      const box = selectionBox;
+      if (box) {
+        const h = hitHandle(p, box, viewport.zoom, box.handles);
         if (h) {
           dragPreSnapshotRef.current = itemsRef.current;
-          setDragMode({ kind: "resize", handle: h, startMouse: p, startBounds: selected });
+          if (box.single && box.single.type !== "stroke" && box.single.type !== "sticky") {
+            setDragMode({ kind: "resize", handle: h, startMouse: p, startBounds: box.single });
+          } else {
+            setDragMode({ kind: "scale", handle: h, startMouse: p, startBounds: box, startItems: selectedItems });
+          }
           return;
         }
       }
-      for (let i = items.length - 1; i >= 0; i--) {
-        const it = items[i];
-        const b = itemBounds(it);
-        if (b && hitBounds(p, b)) {
-          setSelectedId(b.id);
-          dragPreSnapshotRef.current = itemsRef.current;
-          setDragMode({ kind: "move", startMouse: p, startBounds: b });
-          return;
-        }
+      const hit = itemAt(p);
+      if (hit && e.shiftKey) {
+        setSelectedIds((ids) => (ids.includes(hit) ? ids.filter((id) => id !== hit) : [...ids, hit]));
+        return;
+      }
+      // Dragging anywhere inside a group's box moves the group.
+      const inGroup = !hit && selectedIds.length > 1 && box !== null && hitBounds(p, box);
+      if (hit || inGroup) {
+        const ids = hit && !selectedIds.includes(hit) ? [hit] : selectedIds;
+        const moving = new Set(ids);
+        setSelectedIds(ids);
+        dragPreSnapshotRef.current = itemsRef.current;
+        setDragMode({
+          kind: "move",
+          startMouse: p,
+          startItems: itemsRef.current.filter((it) => moving.has(it.data.id)),
+        });
+        return;
       }
-      setSelectedId(null);
+      const base = e.shiftKey ? selectedIds : [];
+      setSelectedIds(base);
+      setSelectionArea({ kind: selectMode, points: [p], base });
       return;
     }
 
-    if (tool === "pen" || tool === "eraser") {
+    if (tool === "eraser") {
+      eraserGestureRef.current = { last: p, erased: false };
+      eraseTo(p);
+      return;
+    }
+
+    if (tool === "pen") {
       const s: Stroke = {
         id: uid(),
-        tool: tool === "eraser" ? "eraser" : "pen",
+        tool: "pen",
         color,
-        size: tool === "eraser" ? Math.max(10, strokeSize * 4) : strokeSize,
+        size: strokeSize,
         points: [p],
       };
       setActiveStroke(s);
       return;
     }
 
+    if (tool === "connector") {
+      const start = connectorEndAt(p);
+      setActiveConnector({
+        id: uid(),
+        start,
+        end: { x: start.x, y: start.y },
+        ...connectorStyle,
+        color,
+        strokeWidth: strokeSize,
+      });
+      return;
+    }
+
     if (tool === "rect" || tool === "ellipse") {
       setShapeStart(p);
       const sh: Shape = {
@@ -1254,10 +1862,9 @@ export default function WhiteboardPage() {
 
     if (tool === "text") {
       if (editingTextRef.current) return;
-      setSelectedId(null);
+      setSelectedIds([]);
       // Single click on an existing text edits it; the caret lands where clicked.
-      for (let i = items.length - 1; i >= 0; i--) {
-        const it = items[i];
+      for (const it of liveIndex.update(items).at(p.x, p.y)) {
         if (it.type !== "text") continue;
         const b = itemBounds(it);
         if (b && hitBounds(p, b)) {
@@ -1270,6 +1877,10 @@ export default function WhiteboardPage() {
             fontSize: it.data.fontSize,
             color: it.data.color,
             isNew: false,
+            width: it.data.width,
+            rich: it.data.rich,
+            style: pickTextStyle(it.data),
+            note: null,
           });
           return;
         }
@@ -1284,9 +1895,125 @@ export default function WhiteboardPage() {
         fontSize,
         color,
         isNew: true,
+        style: textStyle,
+        note: null,
       });
       return;
     }
+
+    if (tool === "sticky") {
+      if (editingTextRef.current) return;
+      setSelectedIds([]);
+      const size = STICKY_DEFAULT_SIZE;
+      editSticky(
+        { id: uid(), x: p.x - size / 2, y: p.y - size / 2, size, text: "", color: stickyColor },
+        true,
+        null,
+      );
+      return;
+    }
+  };
+
+  // Keeps the editor's mirror of its content current and, on a note, shrinks
+  // or grows the font so the text keeps fitting.
+  const editorChanged = (el: HTMLDivElement) => {
+    editorContentRef.current = readRichText(el);
+    el.dataset.empty = el.innerText.length === 0 ? "true" : "false";
+    if (editingText && !editingText.note) setTextFormats(activeTextFormats());
+    const note = editingText?.note;
+    if (!editingText || !note) return;
+    const { fontSize } = stickyTextLayout(richPlainText(editorContentRef.current), note.size);
+    if (fontSize !== editingText.fontSize) setEditingText({ ...editingText, fontSize });
+  };
+
+  // Formats the selection in the open text editor. Notes stay plain.
+  const formatText = (format: TextFormat, href?: string) => {
+    const el = editorRef.current;
+    if (!el || !editingText || editingText.note) return;
+    el.focus();
+    applyTextFormat(format, href);
+    editorChanged(el);
+  };
+
+  // Opens the link field, remembering the selection, which the field takes
+  // focus from.
+  const startLink = () => {
+    const sel = window.getSelection();
+    linkRangeRef.current = sel && sel.rangeCount > 0 ? sel.getRangeAt(0).cloneRange() : null;
+    setLinkDraft(selectedLinkHref());
+  };
+
+  // Closes the link field, linking the selection to `href` unless cancelled
+  // (null). An empty address removes the link.
+  const finishLink = (href: string | null) => {
+    setLinkDraft(null);
+    const el = editorRef.current;
+    const range = linkRangeRef.current;
+    linkRangeRef.current = null;
+    if (!el) return;
+    el.focus();
+    const sel = window.getSelection();
+    if (range && sel) {
+      sel.removeAllRanges();
+      sel.addRange(range);
+    }
+    if (href !== null) formatText("link", href);
+  };
+
+  // Opens the editor on a note, or on a new one when `note` has no text
+  // item yet. The caret lands at `caret` (client space) or at the end.
+  const editSticky = (note: StickyNote, isNew: boolean, caret: Point | null) => {
+    pendingCaretRef.current = caret;
+    setEditingText({
+      id: note.id,
+      x: note.x,
+      y: note.y,
+      content: note.text,
+      fontSize: stickyTextLayout(note.text, note.size).fontSize,
+      color: STICKY_TEXT_COLOR,
+      isNew,
+      note: { size: note.size, color: note.color },
+    });
+  };
+
+  // A connector end for the pointer at `p`, attached to the item under it if
+  // there is one.
+  const connectorEndAt = (p: Point) => {
+    const tolerance = 8 / viewport.zoom;
+    const near = liveIndex
+      .update(itemsRef.current)
+      .query({ x: p.x - tolerance, y: p.y - tolerance, w: tolerance * 2, h: tolerance * 2 });
+    return snapEnd(p, near, tolerance);
+  };
+
+  // Which end of the one selected connector is under `p`, if any.
+  const connectorEndpointAt = (p: Point): { id: string; end: "start" | "end" } | null => {
+    const only = selectedItems.length === 1 ? selectedItems[0] : null;
+    if (only?.type !== "connector") return null;
+    const reach = 8 / viewport.zoom;
+    const { id, start, end } = only.data;
+    if (Math.hypot(p.x - end.x, p.y - end.y) <= reach) return { id, end: "end" };
+    if (Math.hypot(p.x - start.x, p.y - start.y) <= reach) return { id, end: "start" };
+    return null;
+  };
+
+  // Erases along the pointer's path since the last call: pen strokes are cut,
+  // anything else the eraser touches is deleted.
+  const eraseTo = (p: Point) => {
+    const gesture = eraserGestureRef.current;
+    if (!gesture) return;
+    const from = gesture.last;
+    gesture.last = p;
+    const radius = Math.max(10, strokeSize * 4) / 2;
+    const current = itemsRef.current;
+    const candidates = liveIndex.update(current).query(eraserReach(from, p, radius));
+    const next = eraseAlong(current, candidates, from, p, radius, uid);
+    if (!next) return;
+    if (!gesture.erased) {
+      gesture.erased = true;
+      commitHistory();
+    }
+    applyItems(next);
   };
 
   const onPointerMove = (e: React.PointerEvent) => {
@@ -1295,32 +2022,18 @@ export default function WhiteboardPage() {
 
     const rect = canvas.getBoundingClientRect();
     const p = toCanvasPoint(e.clientX, e.clientY, viewport, rect);
+    lastPointerRef.current = p;
 
-    setEraserCursor(tool === "eraser" ? { x: e.clientX, y: e.clientY } : null);
+    setEraserCursor(tool === "eraser" && !preview ? { x: e.clientX, y: e.clientY } : null);
 
     // Broadcast cursor position to peers
     broadcastCursor(p.x, p.y, true);
 
     if (!isPointerDown) {
-      if (tool === "select") {
-        const selected = findBounds(selectedId);
-        const hh = selected
-          ? hitHandle(p, selected, viewport.zoom, handlesForType(selected.type))
-          : null;
+      if (tool === "select" && !preview) {
+        const hh = selectionBox ? hitHandle(p, selectionBox, viewport.zoom, selectionBox.handles) : null;
         setHoverHandle(hh);
-        if (hh) {
-          setHoverItemId(null);
-        } else {
-          let hoverId: string | null = null;
-          for (let i = items.length - 1; i >= 0; i--) {
-            const b = itemBounds(items[i]);
-            if (b && hitBounds(p, b)) {
-              hoverId = b.id;
-              break;
-            }
-          }
-          setHoverItemId(hoverId);
-        }
+        setHoverItemId(hh ? null : itemAt(p));
       } else if (hoverHandle || hoverItemId) {
         setHoverHandle(null);
         setHoverItemId(null);
@@ -1329,17 +2042,44 @@ export default function WhiteboardPage() {
     }
 
     if (dragMode) {
-      const start = dragMode.startBounds;
       const dx = p.x - dragMode.startMouse.x;
       const dy = p.y - dragMode.startMouse.y;
       if (dragPreSnapshotRef.current && (dx !== 0 || dy !== 0)) {
-        setPast((pst) => [...pst, dragPreSnapshotRef.current!]);
-        setFuture([]);
+        commitHistory();
         dragPreSnapshotRef.current = null;
       }
       if (dragMode.kind === "move") {
-        updateItemBounds(start.id, { x: start.x + dx, y: start.y + dy, w: start.w, h: start.h });
+        // Connectors dragged along without what they're attached to let go.
+        const ids = new Set(dragMode.startItems.map((it) => it.data.id));
+        const moved = new Map(
+          dragMode.startItems.map((it) => [it.data.id, releaseConnector(translateItem(it, dx, dy), ids)]),
+        );
+        applyItems((prev) => prev.map((it) => moved.get(it.data.id) ?? it));
+      } else if (dragMode.kind === "endpoint") {
+        const end = connectorEndAt(p);
+        patchItem(dragMode.id, dragMode.end === "start" ? { start: end } : { end });
+      } else if (dragMode.kind === "scale") {
+        // Scales about the corner opposite the handle, by how much farther
+        // from it the pointer is than where the drag started.
+        const b = dragMode.startBounds;
+        const origin = {
+          x: dragMode.handle.includes("w") ? b.x + b.w : b.x,
+          y: dragMode.handle.includes("n") ? b.y + b.h : b.y,
+        };
+        const startDist = Math.hypot(dragMode.startMouse.x - origin.x, dragMode.startMouse.y - origin.y);
+        if (startDist > 0.5) {
+          const scale = Math.max(0.05, Math.hypot(p.x - origin.x, p.y - origin.y) / startDist);
+          const ids = new Set(dragMode.startItems.map((it) => it.data.id));
+          const scaled = new Map(
+            dragMode.startItems.map((it) => [
+              it.data.id,
+              releaseConnector(scaleItem(it, origin, scale), ids),
+            ]),
+          );
+          applyItems((prev) => prev.map((it) => scaled.get(it.data.id) ?? it));
+        }
       } else {
+        const start = dragMode.startBounds;
         const MIN = 10;
         let nx = start.x;
         let ny = start.y;
@@ -1388,6 +2128,13 @@ export default function WhiteboardPage() {
           if (dragMode.handle.includes("n")) ny = start.y + start.h - nh;
           if (dragMode.handle.includes("w")) nx = start.x + start.w - nw;
         }
+        if (start.type === "text" && (dragMode.handle === "e" || dragMode.handle === "w")) {
+          // At least one character wide, so words always have room to break.
+          const width = Math.max(start.fontSize ?? TEXT_MIN_FONT, nw);
+          const x = dragMode.handle === "w" ? start.x + start.w - width : start.x;
+          updateItemBounds(start.id, { x, y: start.y, w: width, h: start.h, width });
+          return;
+        }
         if (start.type === "text" && start.fontSize !== undefined) {
           const anchorX = dragMode.handle.includes("w") ? start.x + start.w : start.x;
           const anchorY = dragMode.handle.includes("n") ? start.y + start.h : start.y;
@@ -1405,7 +2152,12 @@ export default function WhiteboardPage() {
                 it.type === "text" && it.data.id === start.id,
             );
             if (item) {
-              const { w: mw, h: mh } = measureTextItem(item.data.text, nextFont);
+              // Same as scaleItem: the width follows the font.
+              const width =
+                item.data.width === undefined
+                  ? undefined
+                  : (start.w * nextFont) / start.fontSize;
+              const { w: mw, h: mh } = measureTextItem({ ...item.data, fontSize: nextFont, width });
               const newX = dragMode.handle.includes("w") ? anchorX - mw : anchorX;
               const newY = dragMode.handle.includes("n") ? anchorY - mh : anchorY;
               updateItemBounds(start.id, {
@@ -1414,6 +2166,7 @@ export default function WhiteboardPage() {
                 w: mw,
                 h: mh,
                 fontSize: nextFont,
+                width,
               });
               setFontSize(nextFont);
             }
@@ -1425,6 +2178,23 @@ export default function WhiteboardPage() {
       return;
     }
 
+    if (selectionArea) {
+      const last = selectionArea.points[selectionArea.points.length - 1];
+      if (Math.hypot(p.x - last.x, p.y - last.y) < 2 / viewport.zoom) return;
+      const points =
+        selectionArea.kind === "lasso" ? [...selectionArea.points, p] : [selectionArea.points[0], p];
+      const polygon = selectionArea.kind === "lasso" ? points : rectPolygon(points[0], p);
+      const base = selectionArea.base;
+      const hits = liveIndex
+        .update(items)
+        .query(polygonBounds(polygon))
+        .filter((it) => !base.includes(it.data.id) && itemBounds(it) && itemInPolygon(it, polygon))
+        .map((it) => it.data.id);
+      setSelectionArea({ ...selectionArea, points });
+      setSelectedIds([...base, ...hits]);
+      return;
+    }
+
     if (isPanning && panStart) {
       const dx = e.clientX - panStart.x;
       const dy = e.clientY - panStart.y;
@@ -1432,6 +2202,11 @@ export default function WhiteboardPage() {
       return;
     }
 
+    if (eraserGestureRef.current) {
+      eraseTo(p);
+      return;
+    }
+
     if (activeStroke) {
       setActiveStroke((s) => {
         if (!s) return s;
@@ -1443,6 +2218,12 @@ export default function WhiteboardPage() {
       return;
     }
 
+    if (activeConnector) {
+      const end = connectorEndAt(p);
+      setActiveConnector((c) => (c ? { ...c, end } : c));
+      return;
+    }
+
     if (activeShape && shapeStart) {
       const x = Math.min(shapeStart.x, p.x);
       const y = Math.min(shapeStart.y, p.y);
@@ -1461,12 +2242,22 @@ export default function WhiteboardPage() {
       return;
     }
 
+    if (selectionArea) {
+      setSelectionArea(null);
+      return;
+    }
+
     if (isPanning) {
       setIsPanning(false);
       setPanStart(null);
       return;
     }
 
+    if (eraserGestureRef.current) {
+      eraserGestureRef.current = null;
+      return;
+    }
+
     if (activeStroke) {
       const s = activeStroke;
       setActiveStroke(null);
@@ -1474,6 +2265,15 @@ export default function WhiteboardPage() {
       return;
     }
 
+    if (activeConnector) {
+      const c = activeConnector;
+      setActiveConnector(null);
+      if (Math.hypot(c.end.x - c.start.x, c.end.y - c.start.y) > 4) {
+        pushItem({ type: "connector", data: c });
+      }
+      return;
+    }
+
     if (activeShape) {
       const sh = activeShape;
       setActiveShape(null);
@@ -1512,54 +2312,25 @@ export default function WhiteboardPage() {
     setViewport((v) => ({ ...v, x: nextX, y: nextY, zoom: nextViewportZoom }));
   };
 
-  const undo = () => {
-    setPast((p) => {
-      if (p.length === 0) return p;
-      const prevSnap = p[p.length - 1];
-      setFuture((f) => [...f, itemsRef.current]);
-      setItems(prevSnap);
-      setSelectedId((id) =>
-        id &&
-        prevSnap.some(
-          (it) =>
-            (it.type === "image" && it.data.id === id) ||
-            (it.type === "shape" && it.data.id === id) ||
-            (it.type === "text" && it.data.id === id),
-        )
-          ? id
-          : null,
-      );
-      return p.slice(0, -1);
-    });
+  // Undo and redo replay only this user's own edits (see undo-history).
+  const stepHistory = (redo: boolean) => {
+    const history = historyRef.current;
+    const step = (redo ? history.future : history.past).pop();
+    if (!step) return;
+    (redo ? history.past : history.future).push(step);
+    applyItems((prev) => applyStep(prev, step, redo), false);
+    setSelectedIds((ids) => ids.filter((id) => itemsRef.current.some((it) => it.data.id === id)));
   };
 
-  const redo = () => {
-    setFuture((f) => {
-      if (f.length === 0) return f;
-      const nextSnap = f[f.length - 1];
-      setPast((p) => [...p, itemsRef.current]);
-      setItems(nextSnap);
-      setSelectedId((id) =>
-        id &&
-        nextSnap.some(
-          (it) =>
-            (it.type === "image" && it.data.id === id) ||
-            (it.type === "shape" && it.data.id === id) ||
-            (it.type === "text" && it.data.id === id),
-        )
-          ? id
-          : null,
-      );
-      return f.slice(0, -1);
-    });
-  };
+  const undo = () => stepHistory(false);
+
+  const redo = () => stepHistory(true);
 
   const clearBoard = () => {
     commitHistory();
-    setItems([]);
+    applyItems([]);
     setActiveShape(null);
     setActiveStroke(null);
-    broadcastClear();
   };
 
   const resetView = () => {
@@ -1568,25 +2339,244 @@ export default function WhiteboardPage() {
   };
 
   const exportPng = async () => {
+    const png = await sceneRef.current?.snapshot();
+    if (!png) return;
+
+    const url = URL.createObjectURL(png);
+    downloadUrl(url, exportFileName("png"));
+    revokeObjectUrlLater(url);
+  };
+
+  const exportSvg = (background: ExportBackground) => {
+    const svg = boardToSvg(preview ? (preview.items as BoardItem[]) : items, { background });
+    if (!svg) {
+      toast({ title: "Nothing to export", description: "The board is empty." });
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+    downloadUrl(url, exportFileName("svg"));
+    revokeObjectUrlLater(url);
+  };
+
+  const downloadBoard = () => {
+    const file = createBoardFile(items, savedBoard?.title);
+    const url = URL.createObjectURL(
+      new Blob([JSON.stringify(file, null, 2)], { type: "application/json" }),
+    );
+    downloadUrl(url, `${boardId}${BOARD_FILE_EXTENSION}`);
+    revokeObjectUrlLater(url);
+  };
+
+  // Replaces the board with the file's items as one undoable edit, which
+  // also ships them to peers and autosave.
+  const openBoardFile = async (file: File) => {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch {
+      toast({
+        title: "Couldn't open board",
+        description: `${file.name} isn't valid JSON.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    const result = parseBoardFile(raw);
+    if (!result.success) {
+      toast({ title: "Couldn't open board", description: result.error, variant: "destructive" });
+      return;
+    }
+    const loaded: BoardItem[] = result.data.items;
+    commitHistory();
+    applyItems(loaded);
+    setSelectedIds([]);
+    setPreview(null);
+    toast({
+      title: "Board opened",
+      description: `${loaded.length} item${loaded.length !== 1 ? "s" : ""} from ${file.name}`,
+    });
+  };
+
+  const handleBoardFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) void openBoardFile(file);
+    e.target.value = "";
+  };
+
+  // Adds everything dropped at once as one undoable edit, tiled around `at`:
+  // images, SVGs, board files and Excalidraw drawings. Board files are added
+  // to the board here rather than replacing it, under new ids.
+  const dropFiles = async (files: File[], at: Point) => {
+    const groups: BoardItem[][] = [];
+    const imported: string[] = [];
+    const skipped: string[] = [];
+    const unsupported: string[] = [];
+    for (const file of files) {
+      const name = file.name.toLowerCase();
+      if (file.type.startsWith("image/") || name.endsWith(".svg")) {
+        const image = await readImageFile(file);
+        if (image) groups.push([{ type: "image", data: { id: uid(), x: 0, y: 0, ...image } }]);
+        else skipped.push(file.name);
+        continue;
+      }
+      if (!name.endsWith(EXCALIDRAW_EXTENSION) && !name.endsWith(".json")) {
+        skipped.push(file.name);
+        continue;
+      }
+      let raw: unknown;
+      try {
+        raw = JSON.parse(await file.text());
+      } catch {
+        skipped.push(file.name);
+        continue;
+      }
+      if (name.endsWith(EXCALIDRAW_EXTENSION)) {
+        const result = importExcalidraw(raw, uid);
+        if (!result || !contentBounds(result.items)) {
+          skipped.push(file.name);
+          continue;
+        }
+        groups.push(result.items);
+        unsupported.push(...result.unsupported);
+      } else {
+        const result = parseBoardFile(raw);
+        if (!result.success || !contentBounds(result.data.items)) {
+          skipped.push(file.name);
+          continue;
+        }
+        groups.push(withNewIds(result.data.items));
+      }
+      imported.push(file.name);
+    }
+
+    if (groups.length > 0) {
+      const dropped = tileGroups(groups, at);
+      commitHistory();
+      applyItems((prev) => [...prev, ...dropped]);
+      setSelectedIds(dropped.map((it) => it.data.id));
+      setTool("select");
+    }
+
+    // Only one toast shows at a time, so skipped files and placeholders
+    // share one.
+    const notes: string[] = [];
+    if (skipped.length > 0) {
+      notes.push(`Not an image, SVG, board file or Excalidraw drawing: ${skipped.join(", ")}.`);
+    }
+    if (unsupported.length > 0) {
+      const counts = new Map<string, number>();
+      for (const type of unsupported) counts.set(type, (counts.get(type) ?? 0) + 1);
+      const summary = Array.from(counts, ([type, n]) => (n > 1 ? `${type} ×${n}` : type)).join(", ");
+      notes.push(`Not supported yet, shown as placeholders: ${summary}.`);
+    }
+    if (notes.length > 0) {
+      toast({
+        title:
+          skipped.length === 0
+            ? "Imported with placeholders"
+            : groups.length > 0
+              ? "Some files were skipped"
+              : "Can't drop this file",
+        description: notes.join(" "),
+      });
+    } else if (imported.length > 0) {
+      toast({
+        title: imported.length > 1 ? "Drawings imported" : "Drawing imported",
+        description: imported.join(", "),
+      });
+    }
+  };
+
+  const onCanvasDragOver = (e: React.DragEvent) => {
+    if (preview || !e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+  };
+
+  const onCanvasDrop = (e: React.DragEvent) => {
+    if (preview) return;
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length === 0) return;
+    e.preventDefault();
     const canvas = canvasRef.current;
     if (!canvas) return;
+    const at = toCanvasPoint(e.clientX, e.clientY, viewport, canvas.getBoundingClientRect());
+    void dropFiles(files, at);
+  };
+
+  const exportPdf = async (layout: PdfLayout) => {
+    try {
+      const pdf = await boardToPdf(preview ? (preview.items as BoardItem[]) : items, { layout });
+      if (!pdf) {
+        toast({ title: "Nothing to export", description: "The board is empty." });
+        return;
+      }
+      const url = URL.createObjectURL(pdf);
+      downloadUrl(url, exportFileName("pdf"));
+      revokeObjectUrlLater(url);
+    } catch (e) {
+      console.error("[Export] PDF export failed:", e);
+      toast({ title: "Couldn't export PDF", variant: "destructive" });
+    }
+  };
 
-    const link = document.createElement("a");
-    link.download = `collabboard-${new Date().toISOString().slice(0, 19).replaceAll(":", "-")}.png`;
-    link.href = canvas.toDataURL("image/png");
-    link.click();
+  const newBoard = () => {
+    setLocation(boardPath(createBoardId()));
   };
 
-  const saveSnapshot = () => {
-    // Mock: "saved" state in-memory only.
-    window.dispatchEvent(
-      new CustomEvent("toast", {
-        detail: {
-          title: "Saved",
-          description: "Snapshot saved locally (mock).",
-        },
-      }),
-    );
+  const copyBoardLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({ title: "Share link copied" });
+    } catch {
+      toast({
+        title: "Couldn't copy link",
+        description: window.location.href,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Autosave runs on its own; Save / Cmd+S just doesn't wait for the debounce.
+  const saveSnapshot = async () => {
+    if (await save()) {
+      toast({ title: "Saved" });
+    } else {
+      toast({
+        title: "Couldn't save board",
+        description: "Changes are kept and will be saved when the connection returns.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const previewVersion = (version: BoardVersion) => {
+    setSelectedIds([]);
+    setContextMenu(null);
+    setPreview(version);
+  };
+
+  // The server records the restore as a new version; locally it is an
+  // ordinary edit, so it lands in undo history and reaches peers as a delta.
+  const restoreVersion = async () => {
+    if (!preview) return;
+    try {
+      await apiRequest(
+        "POST",
+        `/api/boards/${encodeURIComponent(boardId)}/versions/${encodeURIComponent(preview.id)}/restore`,
+        { author: myName },
+      );
+    } catch (e) {
+      console.error("[History] Restore failed:", e);
+      toast({ title: "Couldn't restore version", variant: "destructive" });
+      return;
+    }
+    commitHistory();
+    applyItems(preview.items as BoardItem[]);
+    markSaved(itemsRef.current);
+    setPreview(null);
+    queryClient.invalidateQueries({ queryKey: ["/api/boards", boardId, "versions"] });
+    toast({ title: "Version restored" });
   };
 
   useEffect(() => {
@@ -1603,6 +2593,10 @@ export default function WhiteboardPage() {
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (editingTextRef.current) return;
+      if (preview) {
+        if (e.key === "Escape") setPreview(null);
+        return;
+      }
       const isMac = navigator.platform.toUpperCase().indexOf("MAC") >= 0;
       const modifier = isMac ? e.metaKey : e.ctrlKey;
 
@@ -1610,26 +2604,15 @@ export default function WhiteboardPage() {
         return;
       }
 
-      if (!modifier && (e.key === "Delete" || e.key === "Backspace") && selectedId) {
+      if (!modifier && (e.key === "Delete" || e.key === "Backspace") && selectedIds.length > 0) {
         e.preventDefault();
-        commitHistory();
-        setItems((prev) =>
-          prev.filter(
-            (it) =>
-              !(
-                (it.type === "image" && it.data.id === selectedId) ||
-                (it.type === "shape" && it.data.id === selectedId) ||
-                (it.type === "text" && it.data.id === selectedId)
-              ),
-          ),
-        );
-        setSelectedId(null);
+        deleteSelected();
         return;
       }
 
       if (!modifier && e.key === "Escape") {
         if (contextMenu) setContextMenu(null);
-        if (selectedId) setSelectedId(null);
+        if (selectedIds.length > 0) setSelectedIds([]);
         return;
       }
 
@@ -1637,6 +2620,11 @@ export default function WhiteboardPage() {
         switch (e.key.toLowerCase()) {
           case "v":
             setTool("select");
+            setSelectMode("marquee");
+            break;
+          case "l":
+            setTool("select");
+            setSelectMode("lasso");
             break;
           case "h":
             setTool("hand");
@@ -1653,6 +2641,12 @@ export default function WhiteboardPage() {
           case "t":
             setTool("text");
             break;
+          case "a":
+            setTool("connector");
+            break;
+          case "n":
+            setTool("sticky");
+            break;
           case "e":
             setTool("eraser");
             break;
@@ -1669,10 +2663,19 @@ export default function WhiteboardPage() {
         } else if (e.key.toLowerCase() === "s") {
           e.preventDefault();
           saveSnapshot();
-        } else if (e.code === "BracketRight" && selectedId) {
+        } else if (e.key.toLowerCase() === "c" && selectedIds.length > 0) {
+          e.preventDefault();
+          void copySelected();
+        } else if (e.key.toLowerCase() === "x" && selectedIds.length > 0) {
+          e.preventDefault();
+          void cutSelected();
+        } else if (e.key.toLowerCase() === "d" && selectedIds.length > 0) {
+          e.preventDefault();
+          duplicateSelected();
+        } else if (e.code === "BracketRight" && selectedIds.length > 0) {
           e.preventDefault();
           reorderSelected(e.shiftKey ? "front" : "forward");
-        } else if (e.code === "BracketLeft" && selectedId) {
+        } else if (e.code === "BracketLeft" && selectedIds.length > 0) {
           e.preventDefault();
           reorderSelected(e.shiftKey ? "back" : "backward");
         }
@@ -1681,7 +2684,42 @@ export default function WhiteboardPage() {
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [undo, redo, saveSnapshot, selectedId, reorderSelected, contextMenu]);
+  }, [
+    undo,
+    redo,
+    saveSnapshot,
+    selectedIds,
+    reorderSelected,
+    deleteSelected,
+    copySelected,
+    cutSelected,
+    duplicateSelected,
+    contextMenu,
+    preview,
+  ]);
+
+  // Cmd+V is left to the browser so the paste event carries the clipboard
+  // contents without a permission prompt.
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      if (editingTextRef.current || preview || !e.clipboardData) return;
+      const target = e.target;
+      if (
+        target instanceof HTMLInputElement ||
+        target instanceof HTMLTextAreaElement ||
+        (target instanceof HTMLElement && target.isContentEditable)
+      ) {
+        return;
+      }
+      const content = readClipboard(e.clipboardData);
+      if (!content) return;
+      e.preventDefault();
+      pasteContent(content);
+    };
+
+    window.addEventListener("paste", handlePaste);
+    return () => window.removeEventListener("paste", handlePaste);
+  }, [pasteContent, preview]);
 
   const insertImage = () => {
     fileInputRef.current?.click();
@@ -1689,51 +2727,7 @@ export default function WhiteboardPage() {
 
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = () => {
-      const dataUrl = reader.result as string;
-      const img = new Image();
-      img.onload = () => {
-        const maxDim = 400;
-        let w = img.naturalWidth;
-        let h = img.naturalHeight;
-        if (w > maxDim || h > maxDim) {
-          const scale = maxDim / Math.max(w, h);
-          w = Math.round(w * scale);
-          h = Math.round(h * scale);
-        }
-
-        const canvas = canvasRef.current;
-        const container = containerRef.current;
-        let cx = 200;
-        let cy = 200;
-        if (canvas && container) {
-          const rect = container.getBoundingClientRect();
-          const center = toCanvasPoint(
-            rect.left + rect.width / 2,
-            rect.top + rect.height / 2,
-            viewport,
-            rect,
-          );
-          cx = center.x - w / 2;
-          cy = center.y - h / 2;
-        }
-
-        imageCacheRef.current.set(dataUrl, img);
-        const newId = uid();
-        pushItem({
-          type: "image",
-          data: { id: newId, x: cx, y: cy, width: w, height: h, src: dataUrl },
-        });
-        setSelectedId(newId);
-        setTool("select");
-      };
-      img.src = dataUrl;
-    };
-    reader.readAsDataURL(file);
-
+    if (file) void addImageFile(file, viewportCenter());
     e.target.value = "";
   };
 
@@ -1766,9 +2760,27 @@ export default function WhiteboardPage() {
                   CollabBoard
                 </div>
                 <div data-testid="text-app-subtitle" className="text-xs text-slate-500">
-                  {isConnected ? `P2P connected · ${peerCount} peer${peerCount !== 1 ? 's' : ''}` : "Connecting..."}
+                  {saveStatus === "saved"
+                    ? "Saved"
+                    : saveStatus === "saving"
+                      ? "Saving…"
+                      : "Offline – changes pending"}
+                  {" · "}
+                  {isConnected ? `${peerCount} peer${peerCount !== 1 ? 's' : ''}` : "Connecting..."}
                 </div>
               </div>
+              <ArrangeButton
+                testId="button-new-board"
+                label="New board"
+                onClick={newBoard}
+                icon={<FilePlus2 className="size-[16px]" />}
+              />
+              <ArrangeButton
+                testId="button-open-board"
+                label="Open board"
+                onClick={() => boardFileInputRef.current?.click()}
+                icon={<FolderOpen className="size-[16px]" />}
+              />
             </div>
           </motion.div>
 
@@ -1806,14 +2818,83 @@ export default function WhiteboardPage() {
             </div>
 
             <Button
-              data-testid="button-export"
-              onClick={exportPng}
+              data-testid="button-history"
+              onClick={() => setHistoryOpen((v) => !v)}
+              variant="secondary"
+              aria-pressed={historyOpen}
+              className={cn(
+                "rounded-2xl border border-slate-200/70 bg-white/80 text-slate-800 shadow-sm backdrop-blur hover:bg-white",
+                historyOpen && "bg-white",
+              )}
+            >
+              <History className="mr-2 size-4" />
+              History
+            </Button>
+
+            <Button
+              data-testid="button-copy-link"
+              onClick={copyBoardLink}
               variant="secondary"
               className="rounded-2xl border border-slate-200/70 bg-white/80 text-slate-800 shadow-sm backdrop-blur hover:bg-white"
             >
-              <Download className="mr-2 size-4" />
-              Export
+              <Link2 className="mr-2 size-4" />
+              Copy link
             </Button>
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  data-testid="button-export"
+                  variant="secondary"
+                  className="rounded-2xl border border-slate-200/70 bg-white/80 text-slate-800 shadow-sm backdrop-blur hover:bg-white"
+                >
+                  <Download className="mr-2 size-4" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent
+                align="end"
+                className="w-64 rounded-xl border-slate-200/70 bg-white/95 backdrop-blur"
+              >
+                <DropdownMenuItem data-testid="menu-download-board" onSelect={downloadBoard}>
+                  Download board
+                  <DropdownMenuShortcut>{BOARD_FILE_EXTENSION}</DropdownMenuShortcut>
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem data-testid="menu-export-png" onSelect={exportPng}>
+                  PNG
+                  <DropdownMenuShortcut>Current view</DropdownMenuShortcut>
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem data-testid="menu-export-svg" onSelect={() => exportSvg("paper")}>
+                  SVG
+                  <DropdownMenuShortcut>Whole board</DropdownMenuShortcut>
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  data-testid="menu-export-svg-transparent"
+                  onSelect={() => exportSvg("transparent")}
+                >
+                  SVG, transparent
+                  <DropdownMenuShortcut>Whole board</DropdownMenuShortcut>
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem data-testid="menu-export-pdf" onSelect={() => exportPdf("fit")}>
+                  PDF
+                  <DropdownMenuShortcut>One page</DropdownMenuShortcut>
+                </DropdownMenuItem>
+                <DropdownMenuItem data-testid="menu-export-pdf-a4" onSelect={() => exportPdf("a4")}>
+                  PDF, A4 pages
+                  <DropdownMenuShortcut>Tiled</DropdownMenuShortcut>
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  data-testid="menu-export-pdf-letter"
+                  onSelect={() => exportPdf("letter")}
+                >
+                  PDF, Letter pages
+                  <DropdownMenuShortcut>Tiled</DropdownMenuShortcut>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </motion.div>
         </div>
       </div>
@@ -1824,17 +2905,35 @@ export default function WhiteboardPage() {
           <motion.div
             initial={{ opacity: 0, x: -10 }}
             animate={{ opacity: 1, x: 0 }}
-            className="pointer-events-auto rounded-2xl border border-slate-200/70 bg-white/85 p-2 shadow-md backdrop-blur cb-noise"
+            className={cn(
+              "pointer-events-auto rounded-2xl border border-slate-200/70 bg-white/85 p-2 shadow-md backdrop-blur cb-noise transition-opacity",
+              // A previewed version is read-only.
+              preview && "pointer-events-none opacity-50",
+            )}
           >
             <div className="flex flex-col gap-2">
               <ToolButton
                 testId="button-tool-select"
                 label="Select"
                 shortcut="V"
-                active={tool === "select"}
-                onClick={() => setTool("select")}
+                active={tool === "select" && selectMode === "marquee"}
+                onClick={() => {
+                  setTool("select");
+                  setSelectMode("marquee");
+                }}
                 icon={<MousePointer2 className="size-[18px]" />}
               />
+              <ToolButton
+                testId="button-tool-lasso"
+                label="Lasso select"
+                shortcut="L"
+                active={tool === "select" && selectMode === "lasso"}
+                onClick={() => {
+                  setTool("select");
+                  setSelectMode("lasso");
+                }}
+                icon={<LassoSelect className="size-[18px]" />}
+              />
               <ToolButton
                 testId="button-tool-hand"
                 label="Pan"
@@ -1868,6 +2967,14 @@ export default function WhiteboardPage() {
                 onClick={() => setTool("ellipse")}
                 icon={<Circle className="size-[18px]" />}
               />
+              <ToolButton
+                testId="button-tool-connector"
+                label="Arrow"
+                shortcut="A"
+                active={tool === "connector"}
+                onClick={() => setTool("connector")}
+                icon={<MoveUpRight className="size-[18px]" />}
+              />
               <ToolButton
                 testId="button-tool-text"
                 label="Text"
@@ -1876,6 +2983,14 @@ export default function WhiteboardPage() {
                 onClick={() => setTool("text")}
                 icon={<TextCursor className="size-[18px]" />}
               />
+              <ToolButton
+                testId="button-tool-sticky"
+                label="Sticky note"
+                shortcut="N"
+                active={tool === "sticky"}
+                onClick={() => setTool("sticky")}
+                icon={<StickyNoteIcon className="size-[18px]" />}
+              />
               <ToolButton
                 testId="button-tool-image"
                 label="Insert Image"
@@ -1947,8 +3062,8 @@ export default function WhiteboardPage() {
                 <div className="flex items-center gap-1.5">
                   <div className="text-[11px] text-slate-500">
                     {tool === "text" ||
-                    editingText !== null ||
-                    items.some((it) => it.type === "text" && it.data.id === selectedId)
+                    (editingText !== null && !editingText.note) ||
+                    selectedItems.some((it) => it.type === "text")
                       ? "Text"
                       : "Stroke"}
                   </div>
@@ -1978,7 +3093,7 @@ export default function WhiteboardPage() {
                           setCustomColor(c);
                           setColor(c);
                           setFill(f);
-                          recolorSelected(c, f);
+                          recolorSelected(c);
                         }}
                       />
 
@@ -1993,7 +3108,7 @@ export default function WhiteboardPage() {
                               setColor(c.value);
                               setCustomColor(c.value);
                               setFill(f);
-                              recolorSelected(c.value, f);
+                              recolorSelected(c.value);
                             }}
                             testId={`button-color-${c.name.toLowerCase()}`}
                           />
@@ -2009,7 +3124,7 @@ export default function WhiteboardPage() {
               <div className="space-y-3">
                 {(tool === "rect" ||
                   tool === "ellipse" ||
-                  items.some((it) => it.type === "shape" && it.data.id === selectedId)) && (
+                  selectedItems.some((it) => it.type === "shape")) && (
                   <div>
                     <div className="flex items-center justify-between">
                       <div className="text-xs font-medium text-slate-700">Fill opacity</div>
@@ -2030,33 +3145,182 @@ export default function WhiteboardPage() {
                   </div>
                 )}
 
+                {(tool === "connector" ||
+                  selectedItems.some((it) => it.type === "connector")) && (
+                  <div>
+                    <div className="text-xs font-medium text-slate-700">Line</div>
+                    <div className="mt-2 flex items-center gap-1">
+                      <OptionButton
+                        testId="button-routing-straight"
+                        label="Straight"
+                        active={connectorStyle.routing === "straight"}
+                        onClick={() => applyConnectorStyle({ routing: "straight" })}
+                        icon={<Slash className="size-[15px]" />}
+                      />
+                      <OptionButton
+                        testId="button-routing-elbow"
+                        label="Elbow"
+                        active={connectorStyle.routing === "elbow"}
+                        onClick={() => applyConnectorStyle({ routing: "elbow" })}
+                        icon={<CornerDownRight className="size-[15px]" />}
+                      />
+                      <OptionButton
+                        testId="button-routing-curved"
+                        label="Curved"
+                        active={connectorStyle.routing === "curved"}
+                        onClick={() => applyConnectorStyle({ routing: "curved" })}
+                        icon={<Spline className="size-[15px]" />}
+                      />
+                      <div className="mx-1 h-5 w-px bg-slate-200/70" />
+                      <OptionButton
+                        testId="button-start-arrow"
+                        label="Start arrowhead"
+                        active={connectorStyle.startArrow}
+                        onClick={() => applyConnectorStyle({ startArrow: !connectorStyle.startArrow })}
+                        icon={<ArrowLeft className="size-[15px]" />}
+                      />
+                      <OptionButton
+                        testId="button-end-arrow"
+                        label="End arrowhead"
+                        active={connectorStyle.endArrow}
+                        onClick={() => applyConnectorStyle({ endArrow: !connectorStyle.endArrow })}
+                        icon={<ArrowRight className="size-[15px]" />}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {(tool === "sticky" || selectedItems.some((it) => it.type === "sticky")) && (
+                  <div>
+                    <div className="text-xs font-medium text-slate-700">Note color</div>
+                    <div className="mt-2 grid grid-cols-3 gap-2">
+                      {STICKY_COLORS.map((c) => (
+                        <ColorDot
+                          key={c.value}
+                          value={c.value}
+                          active={stickyColor.toLowerCase() === c.value.toLowerCase()}
+                          onClick={() => applyStickyColor(c.value)}
+                          testId={`button-note-color-${c.name.toLowerCase()}`}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {(() => {
                   const isTextContext =
                     tool === "text" ||
-                    editingText !== null ||
-                    items.some((it) => it.type === "text" && it.data.id === selectedId);
+                    (editingText !== null && !editingText.note) ||
+                    selectedItems.some((it) => it.type === "text");
                   if (isTextContext) {
                     const displayFont = clamp(Math.round(fontSize), TEXT_MIN_FONT, TEXT_MAX_FONT);
+                    // While editing, the open text's own style.
+                    const style = editingText ? (editingText.style ?? {}) : textStyle;
+                    const weight = style.weight ?? TEXT_DEFAULT_WEIGHT;
+                    const lineHeight =
+                      style.lineHeight ?? textLineHeight(displayFont) / displayFont;
                     return (
-                      <div>
-                        <div className="flex items-center justify-between gap-2">
-                          <div className="text-xs font-medium text-slate-700">Text size</div>
-                          <div
-                            data-testid="text-font-size"
-                            className="text-[11px] tabular-nums text-slate-500"
-                          >
-                            {displayFont}px
+                      <div className="space-y-3">
+                        <div>
+                          <div className="flex items-center justify-between gap-2">
+                            <div className="text-xs font-medium text-slate-700">Text size</div>
+                            <div
+                              data-testid="text-font-size"
+                              className="text-[11px] tabular-nums text-slate-500"
+                            >
+                              {displayFont}px
+                            </div>
+                          </div>
+                          <div className="mt-2 px-1">
+                            <Slider
+                              data-testid="slider-font-size"
+                              value={[displayFont]}
+                              min={TEXT_MIN_FONT}
+                              max={TEXT_MAX_FONT}
+                              step={1}
+                              onValueChange={(v) => applyFontSize(v[0] ?? 18)}
+                            />
                           </div>
                         </div>
-                        <div className="mt-2 px-1">
-                          <Slider
-                            data-testid="slider-font-size"
-                            value={[displayFont]}
-                            min={TEXT_MIN_FONT}
-                            max={TEXT_MAX_FONT}
-                            step={1}
-                            onValueChange={(v) => applyFontSize(v[0] ?? 18)}
-                          />
+
+                        <div>
+                          <div className="text-xs font-medium text-slate-700">Font</div>
+                          <div className="mt-2 flex items-center gap-1">
+                            {TEXT_FONTS.map((f) => (
+                              <OptionButton
+                                key={f.value}
+                                testId={`button-font-${f.value}`}
+                                label={f.label}
+                                active={(style.font ?? "sans") === f.value}
+                                onClick={() => applyTextStyle({ font: f.value })}
+                                icon={
+                                  <span style={{ fontFamily: f.stack }} className="text-[14px]">
+                                    Aa
+                                  </span>
+                                }
+                              />
+                            ))}
+                          </div>
+                        </div>
+
+                        <div>
+                          <div className="text-xs font-medium text-slate-700">Weight</div>
+                          <div className="mt-2 flex items-center gap-1">
+                            {TEXT_WEIGHTS.map((w) => (
+                              <OptionButton
+                                key={w.value}
+                                testId={`button-weight-${w.value}`}
+                                label={w.label}
+                                active={weight === w.value}
+                                onClick={() => applyTextStyle({ weight: w.value })}
+                                icon={
+                                  <span style={{ fontWeight: w.value }} className="text-[14px]">
+                                    B
+                                  </span>
+                                }
+                              />
+                            ))}
+                          </div>
+                        </div>
+
+                        <div>
+                          <div className="text-xs font-medium text-slate-700">Align</div>
+                          <div className="mt-2 flex items-center gap-1">
+                            {TEXT_ALIGN_BUTTONS.map(({ value, label, icon: Icon }) => (
+                              <OptionButton
+                                key={value}
+                                testId={`button-align-${value}`}
+                                label={label}
+                                active={(style.align ?? "left") === value}
+                                onClick={() => applyTextStyle({ align: value })}
+                                icon={<Icon className="size-[15px]" />}
+                              />
+                            ))}
+                          </div>
+                        </div>
+
+                        <div>
+                          <div className="flex items-center justify-between gap-2">
+                            <div className="text-xs font-medium text-slate-700">Line height</div>
+                            <div
+                              data-testid="text-line-height"
+                              className="text-[11px] tabular-nums text-slate-500"
+                            >
+                              {lineHeight.toFixed(2)}×
+                            </div>
+                          </div>
+                          <div className="mt-2 px-1">
+                            <Slider
+                              data-testid="slider-line-height"
+                              value={[Math.round(lineHeight * 100)]}
+                              min={TEXT_MIN_LINE_HEIGHT * 100}
+                              max={TEXT_MAX_LINE_HEIGHT * 100}
+                              step={5}
+                              onValueChange={(v) =>
+                                applyTextStyle({ lineHeight: (v[0] ?? 130) / 100 })
+                              }
+                            />
+                          </div>
                         </div>
                       </div>
                     );
@@ -2088,8 +3352,58 @@ export default function WhiteboardPage() {
         </div>
       </div>
 
+      {/* Version history */}
+      {historyOpen && (
+        <div className="pointer-events-none absolute right-0 top-[76px] z-30 pr-4">
+          <HistoryPanel
+            boardId={boardId}
+            author={myName}
+            previewId={preview?.id ?? null}
+            onPreview={previewVersion}
+            onClose={() => {
+              setHistoryOpen(false);
+              setPreview(null);
+            }}
+            flush={save}
+          />
+        </div>
+      )}
+
+      {preview && (
+        <motion.div
+          initial={{ opacity: 0, y: -6 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="pointer-events-auto absolute left-1/2 top-4 z-40 -translate-x-1/2"
+          data-testid="banner-version-preview"
+        >
+          <div className="flex items-center gap-3 rounded-2xl border border-slate-200/70 bg-white/90 py-1 pl-3 pr-1 shadow-md backdrop-blur cb-noise">
+            <div className="text-xs text-slate-600">
+              Previewing{" "}
+              <span className="font-medium text-slate-900">{preview.name ?? "autosave"}</span>
+              {" · "}
+              {format(new Date(preview.createdAt), "MMM d, HH:mm")}
+            </div>
+            <Button
+              data-testid="button-exit-preview"
+              onClick={() => setPreview(null)}
+              variant="ghost"
+              className="h-8 rounded-xl px-3 text-xs"
+            >
+              Back to live
+            </Button>
+            <Button
+              data-testid="button-restore-version"
+              onClick={restoreVersion}
+              className="h-8 rounded-xl bg-slate-900 px-3 text-xs text-white hover:bg-slate-800"
+            >
+              Restore
+            </Button>
+          </div>
+        </motion.div>
+      )}
+
       {/* Contextual arrange toolbar */}
-      {selectedId && (
+      {selectedIds.length > 0 && (
         <motion.div
           initial={{ opacity: 0, y: -6 }}
           animate={{ opacity: 1, y: 0 }}
@@ -2137,6 +3451,31 @@ export default function WhiteboardPage() {
           data-testid="context-menu"
           onContextMenu={(e) => e.preventDefault()}
         >
+          <ContextMenuItem
+            label="Cut"
+            shortcut="⌘X"
+            onClick={() => {
+              void cutSelected();
+              setContextMenu(null);
+            }}
+          />
+          <ContextMenuItem
+            label="Copy"
+            shortcut="⌘C"
+            onClick={() => {
+              void copySelected();
+              setContextMenu(null);
+            }}
+          />
+          <ContextMenuItem
+            label="Duplicate"
+            shortcut="⌘D"
+            onClick={() => {
+              duplicateSelected();
+              setContextMenu(null);
+            }}
+          />
+          <div className="my-1 h-px bg-slate-200/70" />
           <ContextMenuItem
             label="Bring to front"
             shortcut="⇧⌘]"
@@ -2175,19 +3514,7 @@ export default function WhiteboardPage() {
             shortcut="⌫"
             danger
             onClick={() => {
-              const id = contextMenu.id;
-              commitHistory();
-              setItems((prev) =>
-                prev.filter(
-                  (it) =>
-                    !(
-                      (it.type === "image" && it.data.id === id) ||
-                      (it.type === "shape" && it.data.id === id) ||
-                      (it.type === "text" && it.data.id === id)
-                    ),
-                ),
-              );
-              setSelectedId(null);
+              deleteSelected();
               setContextMenu(null);
             }}
           />
@@ -2254,15 +3581,24 @@ export default function WhiteboardPage() {
         onChange={handleImageUpload}
       />
 
+      <input
+        ref={boardFileInputRef}
+        type="file"
+        accept={`${BOARD_FILE_EXTENSION},.json,application/json`}
+        className="hidden"
+        onChange={handleBoardFileUpload}
+      />
+
       {/* Canvas stage */}
-      <div className="absolute inset-0">
+      <div className="absolute inset-0" onDragOver={onCanvasDragOver} onDrop={onCanvasDrop}>
         <div ref={containerRef} className="h-full w-full">
           <canvas
+            key={canvasKey}
             ref={canvasRef}
             data-testid="canvas-board"
             className={cn(
               "h-full w-full touch-none",
-              tool === "hand"
+              preview || tool === "hand"
                 ? "cursor-grab"
                 : tool === "select"
                   ? dragMode?.kind === "resize"
@@ -2287,16 +3623,21 @@ export default function WhiteboardPage() {
             onPointerLeave={() => setEraserCursor(null)}
             onDoubleClick={(e) => {
               const canvas = canvasRef.current;
-              if (!canvas) return;
+              if (!canvas || preview) return;
               const rect = canvas.getBoundingClientRect();
               const p = toCanvasPoint(e.clientX, e.clientY, viewport, rect);
-              for (let i = items.length - 1; i >= 0; i--) {
-                const it = items[i];
+              for (const it of liveIndex.update(items).at(p.x, p.y)) {
+                if (it.type === "sticky" && hitBounds(p, stickyRect(it.data))) {
+                  e.preventDefault();
+                  setSelectedIds([]);
+                  editSticky(it.data, false, { x: e.clientX, y: e.clientY });
+                  return;
+                }
                 if (it.type !== "text") continue;
                 const b = itemBounds(it);
                 if (b && hitBounds(p, b)) {
                   e.preventDefault();
-                  setSelectedId(null);
+                  setSelectedIds([]);
                   pendingCaretRef.current = { x: e.clientX, y: e.clientY };
                   setEditingText({
                     id: it.data.id,
@@ -2306,6 +3647,10 @@ export default function WhiteboardPage() {
                     fontSize: it.data.fontSize,
                     color: it.data.color,
                     isNew: false,
+                    width: it.data.width,
+                    rich: it.data.rich,
+                    style: pickTextStyle(it.data),
+                    note: null,
                   });
                   return;
                 }
@@ -2315,16 +3660,19 @@ export default function WhiteboardPage() {
             onContextMenu={(e) => {
               const canvas = canvasRef.current;
               if (!canvas) return;
+              if (preview) {
+                e.preventDefault();
+                return;
+              }
               const rect = canvas.getBoundingClientRect();
               const p = toCanvasPoint(e.clientX, e.clientY, viewport, rect);
-              for (let i = items.length - 1; i >= 0; i--) {
-                const b = itemBounds(items[i]);
-                if (b && hitBounds(p, b)) {
-                  e.preventDefault();
-                  setSelectedId(b.id);
-                  setContextMenu({ x: e.clientX, y: e.clientY, id: b.id });
-                  return;
-                }
+              const hit = itemAt(p);
+              if (hit) {
+                e.preventDefault();
+                // Right-clicking a member of the selection acts on all of it.
+                if (!selectedIds.includes(hit)) setSelectedIds([hit]);
+                setContextMenu({ x: e.clientX, y: e.clientY });
+                return;
               }
               setContextMenu(null);
             }}
@@ -2337,16 +3685,22 @@ export default function WhiteboardPage() {
               suppressContentEditableWarning
               data-testid="text-editor"
               spellCheck={false}
-              onInput={(ev) => {
-                const el = ev.currentTarget as HTMLDivElement;
-                editorContentRef.current = el.innerText;
-                el.dataset.empty = el.innerText.length === 0 ? "true" : "false";
-              }}
+              onInput={(ev) => editorChanged(ev.currentTarget as HTMLDivElement)}
               onKeyDown={(ev) => {
                 ev.stopPropagation();
                 if (ev.key === "Escape") {
                   ev.preventDefault();
                   commitText();
+                  return;
+                }
+                const format = TEXT_FORMAT_KEYS[ev.key.toLowerCase()];
+                if (format && (ev.metaKey || ev.ctrlKey) && !ev.altKey && !ev.shiftKey) {
+                  // Also keeps the browser's own bold/italic/underline out of
+                  // notes, which have no formatting.
+                  ev.preventDefault();
+                  if (editingText.note) return;
+                  if (format === "link") startLink();
+                  else formatText(format);
                 }
               }}
               onPointerDown={(ev) => ev.stopPropagation()}
@@ -2361,21 +3715,28 @@ export default function WhiteboardPage() {
                   range.collapse(false);
                   sel.removeAllRanges();
                   sel.addRange(range);
-                  const el = editorRef.current;
-                  if (el) {
-                    editorContentRef.current = el.innerText;
-                    el.dataset.empty = el.innerText.length === 0 ? "true" : "false";
-                  }
+                  if (editorRef.current) editorChanged(editorRef.current);
                 }
               }}
               style={{
                 position: "absolute",
                 left: viewport.x + editingText.x * viewport.zoom,
-                top: viewport.y + editingText.y * viewport.zoom,
-                fontFamily: TEXT_FONT_STACK,
+                top:
+                  viewport.y +
+                  (editingText.y -
+                    (editingText.note
+                      ? 0
+                      : textHalfLeading(editingText.fontSize, editingText.style?.lineHeight))) *
+                    viewport.zoom,
+                fontFamily: textFontStack(editingText.style?.font),
                 fontSize: `${editingText.fontSize * viewport.zoom}px`,
-                fontWeight: 500,
-                lineHeight: `${textLineHeight(editingText.fontSize) * viewport.zoom}px`,
+                fontWeight: editingText.style?.weight ?? TEXT_DEFAULT_WEIGHT,
+                lineHeight: `${
+                  textLineHeight(editingText.fontSize, editingText.style?.lineHeight) *
+                  viewport.zoom
+                }px`,
+                textAlign: editingText.style?.align ?? "left",
+                "--cb-bold-weight": boldWeight(editingText.style?.weight),
                 color: editingText.color,
                 caretColor: "#3175F1",
                 whiteSpace: "pre-wrap",
@@ -2390,11 +3751,89 @@ export default function WhiteboardPage() {
                 userSelect: "text",
                 background: "transparent",
                 outline: "none",
-              }}
+                // Wrapped text wraps the way wrapText does: at spaces, and
+                // inside a word only when it doesn't fit on a line alone.
+                ...(editingText.width !== undefined && {
+                  width: `${editingText.width * viewport.zoom}px`,
+                  overflowWrap: "anywhere",
+                }),
+                // A note is edited in place, on a copy of its square.
+                ...(editingText.note && {
+                  boxSizing: "border-box",
+                  width: `${editingText.note.size * viewport.zoom}px`,
+                  height: `${editingText.note.size * viewport.zoom}px`,
+                  padding: `${STICKY_PADDING * viewport.zoom}px`,
+                  overflow: "hidden",
+                  overflowWrap: "anywhere",
+                  background: editingText.note.color,
+                  boxShadow: `0 ${STICKY_SHADOW.offsetY * viewport.zoom}px ${
+                    STICKY_SHADOW.blur * 2 * viewport.zoom
+                  }px ${STICKY_SHADOW.color}`,
+                }),
+              } as React.CSSProperties}
               className="cb-text-editor"
             />
           )}
 
+          {editingText && !editingText.note && (
+            <div
+              ref={editorToolbarRef}
+              data-testid="toolbar-text-format"
+              // Keeps focus, and the selection, in the editor.
+              onMouseDown={(ev) => {
+                if (!(ev.target instanceof HTMLInputElement)) ev.preventDefault();
+              }}
+              className="pointer-events-auto absolute z-40 flex items-center gap-0.5 rounded-xl border border-slate-200/70 bg-white/95 p-1 shadow-md backdrop-blur"
+              style={{
+                left: viewport.x + editingText.x * viewport.zoom,
+                top: viewport.y + editingText.y * viewport.zoom - 48,
+              }}
+            >
+              {linkDraft === null ? (
+                TEXT_FORMAT_BUTTONS.map(({ format, label, icon: Icon }) => (
+                  <OptionButton
+                    key={format}
+                    testId={`button-format-${format}`}
+                    label={label}
+                    active={textFormats.has(format)}
+                    onClick={() => (format === "link" ? startLink() : formatText(format))}
+                    icon={<Icon className="size-[15px]" />}
+                  />
+                ))
+              ) : (
+                <form
+                  className="flex items-center gap-1"
+                  onSubmit={(ev) => {
+                    ev.preventDefault();
+                    finishLink(linkDraft);
+                  }}
+                >
+                  <Input
+                    autoFocus
+                    data-testid="input-link"
+                    value={linkDraft}
+                    placeholder="Paste a link"
+                    onChange={(ev) => setLinkDraft(ev.target.value)}
+                    onKeyDown={(ev) => {
+                      if (ev.key === "Escape") {
+                        ev.preventDefault();
+                        finishLink(null);
+                      }
+                    }}
+                    className="h-8 w-56 rounded-lg text-xs"
+                  />
+                  <Button
+                    type="submit"
+                    data-testid="button-link-apply"
+                    className="h-8 rounded-lg px-3 text-xs"
+                  >
+                    {linkDraft.trim() ? "Apply" : "Remove"}
+                  </Button>
+                </form>
+              )}
+            </div>
+          )}
+
           {/* Presence layer */}
           <div className="pointer-events-none absolute inset-0">
             {remotePeers.map((c) => (
@@ -2467,11 +3906,20 @@ export default function WhiteboardPage() {
               >
                 <div className="font-semibold text-slate-800">Tips</div>
                 <ul className="mt-1 space-y-1">
+                  <li>
+                    <span className="font-medium text-slate-700">Select:</span> drag a box or lasso (L), Shift+click to add or remove
+                  </li>
                   <li>
                     <span className="font-medium text-slate-700">Draw:</span> Pen, Shapes, Eraser
                   </li>
                   <li>
-                    <span className="font-medium text-slate-700">Text:</span> click to place, Esc to commit, double-click to edit
+                    <span className="font-medium text-slate-700">Arrow:</span> drag from one shape to another to connect them (A)
+                  </li>
+                  <li>
+                    <span className="font-medium text-slate-700">Text:</span> click to place, Esc to commit, double-click to edit, ⌘B/I/U to format
+                  </li>
+                  <li>
+                    <span className="font-medium text-slate-700">Note:</span> click to add a sticky note (N), double-click to edit
                   </li>
                   <li>
                     <span className="font-medium text-slate-700">Pan:</span> Pan tool
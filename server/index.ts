@@ -14,6 +14,8 @@ declare module "http" {
 
 app.use(
   express.json({
+    // Saved boards embed images as data URLs.
+    limit: "25mb",
     verify: (req, _res, buf) => {
       req.rawBody = buf;
     },
@@ -49,7 +51,11 @@ app.use((req, res, next) => {
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        // Boards and versions carry every item, embedded images included;
+        // only their number goes in the log.
+        const { items, ...rest } = capturedJsonResponse;
+        const logged = Array.isArray(items) ? { ...rest, items: items.length } : capturedJsonResponse;
+        logLine += ` :: ${JSON.stringify(logged)}`;
       }
 
       log(logLine);
@@ -1,6 +1,31 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import {
+  boardPatchSchema,
+  createBoardVersionSchema,
+  insertBoardSchema,
+  type Board,
+} from "@shared/schema";
+import { BOARD_ID_PATTERN } from "@shared/signaling";
 import { storage } from "./storage";
+import { registerSignaling } from "./signaling";
+
+// At most one automatic version per board in this window; edits inside it
+// are folded into the next snapshot.
+const AUTO_VERSION_INTERVAL_MS = 10 * 60 * 1000;
+
+// Saves may say who made them so automatic versions can credit someone.
+const saveAuthorSchema = z.string().trim().min(1).max(80).catch("Someone");
+
+async function recordAutoVersion(board: Board, author: string) {
+  const [latest] = await storage.listBoardVersions(board.id);
+  if (latest && board.updatedAt.getTime() - latest.createdAt.getTime() < AUTO_VERSION_INTERVAL_MS) {
+    return;
+  }
+  await storage.createBoardVersion(board.id, { name: null, author, items: board.items });
+}
 
 export async function registerRoutes(
   httpServer: Server,
@@ -10,5 +35,105 @@ export async function registerRoutes(
     res.status(200).json({ ok: true });
   });
 
+  // WebRTC signaling relay so peers on different machines can find each other.
+  registerSignaling(httpServer);
+
+  app.get("/api/boards/:id", async (req, res) => {
+    if (!BOARD_ID_PATTERN.test(req.params.id)) {
+      return res.status(400).json({ message: "Invalid board id" });
+    }
+    const board = await storage.getBoard(req.params.id);
+    if (!board) {
+      return res.status(404).json({ message: "Board not found" });
+    }
+    res.json(board);
+  });
+
+  app.put("/api/boards/:id", async (req, res) => {
+    if (!BOARD_ID_PATTERN.test(req.params.id)) {
+      return res.status(400).json({ message: "Invalid board id" });
+    }
+    const parsed = insertBoardSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+    const board = await storage.saveBoard(req.params.id, parsed.data);
+    await recordAutoVersion(board, saveAuthorSchema.parse(req.body?.author));
+    // The caller already has the items; echoing them back would only bloat
+    // the response (and the API log line) with embedded images.
+    const { items: _items, ...meta } = board;
+    res.json(meta);
+  });
+
+  app.patch("/api/boards/:id", async (req, res) => {
+    if (!BOARD_ID_PATTERN.test(req.params.id)) {
+      return res.status(400).json({ message: "Invalid board id" });
+    }
+    const parsed = boardPatchSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+    const board = await storage.patchBoard(req.params.id, parsed.data);
+    await recordAutoVersion(board, saveAuthorSchema.parse(req.body?.author));
+    const { items: _items, ...meta } = board;
+    res.json(meta);
+  });
+
+  app.get("/api/boards/:id/versions", async (req, res) => {
+    if (!BOARD_ID_PATTERN.test(req.params.id)) {
+      return res.status(400).json({ message: "Invalid board id" });
+    }
+    res.json(await storage.listBoardVersions(req.params.id));
+  });
+
+  app.get("/api/boards/:id/versions/:versionId", async (req, res) => {
+    if (!BOARD_ID_PATTERN.test(req.params.id)) {
+      return res.status(400).json({ message: "Invalid board id" });
+    }
+    const version = await storage.getBoardVersion(req.params.id, req.params.versionId);
+    if (!version) {
+      return res.status(404).json({ message: "Version not found" });
+    }
+    res.json(version);
+  });
+
+  // Snapshots the board as currently saved under a name. A board nobody has
+  // drawn on yet has never been saved; it is created empty first.
+  app.post("/api/boards/:id/versions", async (req, res) => {
+    if (!BOARD_ID_PATTERN.test(req.params.id)) {
+      return res.status(400).json({ message: "Invalid board id" });
+    }
+    const parsed = createBoardVersionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+    const board =
+      (await storage.getBoard(req.params.id)) ??
+      (await storage.patchBoard(req.params.id, { upsert: [], remove: [] }));
+    const version = await storage.createBoardVersion(board.id, {
+      ...parsed.data,
+      items: board.items,
+    });
+    const { items: _items, ...summary } = version;
+    res.status(201).json(summary);
+  });
+
+  // Writes an old version back as the board's content. The restore itself is
+  // recorded as a new version, so nothing in the history is lost.
+  app.post("/api/boards/:id/versions/:versionId/restore", async (req, res) => {
+    const version = await storage.getBoardVersion(req.params.id, req.params.versionId);
+    if (!version) {
+      return res.status(404).json({ message: "Version not found" });
+    }
+    await storage.saveBoard(req.params.id, { items: version.items });
+    const restored = await storage.createBoardVersion(req.params.id, {
+      name: version.name ? `Restored "${version.name}"` : "Restored version",
+      author: saveAuthorSchema.parse(req.body?.author),
+      items: version.items,
+    });
+    const { items: _items, ...summary } = restored;
+    res.status(201).json(summary);
+  });
+
   return httpServer;
 }
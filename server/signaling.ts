@@ -0,0 +1,128 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import {
+  BOARD_ID_PATTERN,
+  SIGNALING_PATH,
+  type PeerId,
+  type SignalMessage,
+} from "@shared/signaling";
+
+const HEARTBEAT_MS = 30000;
+
+interface SignalClient {
+  socket: WebSocket;
+  room: string;
+  peerId: PeerId | null;
+  alive: boolean;
+}
+
+function parseSignal(data: RawData): SignalMessage | null {
+  try {
+    const msg = JSON.parse(data.toString());
+    if (!msg || typeof msg !== "object") return null;
+    if (msg.type === "presence" && typeof msg.id === "string") return msg;
+    if (
+      (msg.type === "offer" || msg.type === "answer" || msg.type === "ice") &&
+      typeof msg.from === "string" &&
+      typeof msg.to === "string"
+    ) {
+      return msg;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+// Relays presence announcements to every other client in the same room and
+// routes offers, answers and ICE candidates to the client in that room that
+// announced the target id, marked as coming from the sender's announced id.
+// The server never looks inside the session descriptions.
+export function registerSignaling(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+  const clients = new Set<SignalClient>();
+
+  // Attach through "upgrade" ourselves so other WebSocket users of the same
+  // server (the Vite HMR socket in development) keep their own paths.
+  httpServer.on("upgrade", (req, socket, head) => {
+    const { pathname, searchParams } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== SIGNALING_PATH) return;
+    const room = searchParams.get("room") ?? "";
+    if (!BOARD_ID_PATTERN.test(room)) {
+      socket.write("HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      wss.emit("connection", ws, room);
+    });
+  });
+
+  wss.on("connection", (socket: WebSocket, room: string) => {
+    const client: SignalClient = { socket, room, peerId: null, alive: true };
+    clients.add(client);
+
+    socket.on("pong", () => {
+      client.alive = true;
+    });
+
+    socket.on("message", (data) => {
+      const msg = parseSignal(data);
+      if (!msg) return;
+
+      // A socket speaks for the id it first announced, whatever ids later
+      // messages claim, so one client can't pose as another in its room.
+      if (msg.type === "presence") {
+        client.peerId ??= msg.id;
+        const payload = JSON.stringify({ ...msg, id: client.peerId });
+        clients.forEach((other) => {
+          if (
+            other !== client &&
+            other.room === client.room &&
+            other.socket.readyState === WebSocket.OPEN
+          ) {
+            other.socket.send(payload);
+          }
+        });
+        return;
+      }
+
+      if (client.peerId === null) return;
+      const payload = JSON.stringify({ ...msg, from: client.peerId });
+      clients.forEach((other) => {
+        if (
+          other.room === client.room &&
+          other.peerId === msg.to &&
+          other.socket.readyState === WebSocket.OPEN
+        ) {
+          other.socket.send(payload);
+        }
+      });
+    });
+
+    socket.on("close", () => {
+      clients.delete(client);
+    });
+
+    socket.on("error", () => {
+      clients.delete(client);
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    clients.forEach((client) => {
+      if (!client.alive) {
+        client.socket.terminate();
+        clients.delete(client);
+        return;
+      }
+      client.alive = false;
+      client.socket.ping();
+    });
+  }, HEARTBEAT_MS);
+
+  httpServer.on("close", () => {
+    clearInterval(heartbeat);
+    wss.close();
+  });
+}
@@ -1,5 +1,20 @@
-import { type User, type InsertUser } from "@shared/schema";
+import {
+  boardVersions,
+  boards,
+  users,
+  type Board,
+  type BoardPatch,
+  type BoardVersion,
+  type BoardVersionSummary,
+  type InsertBoard,
+  type InsertBoardVersion,
+  type User,
+  type InsertUser,
+} from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, desc, eq } from "drizzle-orm";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import pg from "pg";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -8,13 +23,39 @@ export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getBoard(id: string): Promise<Board | undefined>;
+  saveBoard(id: string, board: InsertBoard): Promise<Board>;
+  patchBoard(id: string, patch: BoardPatch): Promise<Board>;
+  // Newest first, without items.
+  listBoardVersions(boardId: string): Promise<BoardVersionSummary[]>;
+  getBoardVersion(boardId: string, versionId: string): Promise<BoardVersion | undefined>;
+  createBoardVersion(boardId: string, version: InsertBoardVersion): Promise<BoardVersion>;
+}
+
+function applyBoardPatch(items: unknown[], patch: BoardPatch): unknown[] {
+  const byId = new Map<string, unknown>();
+  for (const item of items as { data: { id: string } }[]) byId.set(item.data.id, item);
+  for (const id of patch.remove) byId.delete(id);
+  // Map.set keeps an existing key in place, so edits don't move items.
+  for (const item of patch.upsert) byId.set(item.data.id, item);
+  if (!patch.order) return Array.from(byId.values());
+  const placed = new Set(patch.order);
+  const ordered = patch.order.filter((id) => byId.has(id)).map((id) => byId.get(id));
+  const rest = Array.from(byId.entries())
+    .filter(([id]) => !placed.has(id))
+    .map(([, item]) => item);
+  return [...ordered, ...rest];
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private boards: Map<string, Board>;
+  private boardVersions: Map<string, BoardVersion>;
 
   constructor() {
     this.users = new Map();
+    this.boards = new Map();
+    this.boardVersions = new Map();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -33,6 +74,146 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async getBoard(id: string): Promise<Board | undefined> {
+    return this.boards.get(id);
+  }
+
+  async saveBoard(id: string, insertBoard: InsertBoard): Promise<Board> {
+    const existing = this.boards.get(id);
+    const now = new Date();
+    const board: Board = {
+      id,
+      title: insertBoard.title ?? existing?.title ?? "Untitled board",
+      items: insertBoard.items ?? existing?.items ?? [],
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.boards.set(id, board);
+    return board;
+  }
+
+  async patchBoard(id: string, patch: BoardPatch): Promise<Board> {
+    const existing = this.boards.get(id);
+    return this.saveBoard(id, { items: applyBoardPatch(existing?.items ?? [], patch) });
+  }
+
+  async listBoardVersions(boardId: string): Promise<BoardVersionSummary[]> {
+    return Array.from(this.boardVersions.values())
+      .filter((version) => version.boardId === boardId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(({ items: _items, ...summary }) => summary);
+  }
+
+  async getBoardVersion(boardId: string, versionId: string): Promise<BoardVersion | undefined> {
+    const version = this.boardVersions.get(versionId);
+    return version?.boardId === boardId ? version : undefined;
+  }
+
+  async createBoardVersion(boardId: string, insertVersion: InsertBoardVersion): Promise<BoardVersion> {
+    const id = randomUUID();
+    const version: BoardVersion = {
+      id,
+      boardId,
+      name: insertVersion.name ?? null,
+      author: insertVersion.author,
+      items: insertVersion.items,
+      createdAt: new Date(),
+    };
+    this.boardVersions.set(id, version);
+    return version;
+  }
+}
+
+export class DbStorage implements IStorage {
+  private db: NodePgDatabase;
+
+  constructor(connectionString: string) {
+    this.db = drizzle(new pg.Pool({ connectionString }));
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getBoard(id: string): Promise<Board | undefined> {
+    const [board] = await this.db.select().from(boards).where(eq(boards.id, id));
+    return board;
+  }
+
+  async saveBoard(id: string, insertBoard: InsertBoard): Promise<Board> {
+    const now = new Date();
+    const [board] = await this.db
+      .insert(boards)
+      .values({ ...insertBoard, id, updatedAt: now })
+      .onConflictDoUpdate({
+        target: boards.id,
+        set: { ...insertBoard, updatedAt: now },
+      })
+      .returning();
+    return board;
+  }
+
+  async patchBoard(id: string, patch: BoardPatch): Promise<Board> {
+    return this.db.transaction(async (tx) => {
+      // The row has to exist for the lock below to hold: two first saves of
+      // a new board would otherwise both start from no items.
+      await tx.insert(boards).values({ id, items: [] }).onConflictDoNothing();
+      const [existing] = await tx.select().from(boards).where(eq(boards.id, id)).for("update");
+      const items = applyBoardPatch(existing?.items ?? [], patch);
+      const now = new Date();
+      const [board] = await tx
+        .insert(boards)
+        .values({ id, items, updatedAt: now })
+        .onConflictDoUpdate({ target: boards.id, set: { items, updatedAt: now } })
+        .returning();
+      return board;
+    });
+  }
+
+  async listBoardVersions(boardId: string): Promise<BoardVersionSummary[]> {
+    return this.db
+      .select({
+        id: boardVersions.id,
+        boardId: boardVersions.boardId,
+        name: boardVersions.name,
+        author: boardVersions.author,
+        createdAt: boardVersions.createdAt,
+      })
+      .from(boardVersions)
+      .where(eq(boardVersions.boardId, boardId))
+      .orderBy(desc(boardVersions.createdAt));
+  }
+
+  async getBoardVersion(boardId: string, versionId: string): Promise<BoardVersion | undefined> {
+    const [version] = await this.db
+      .select()
+      .from(boardVersions)
+      .where(and(eq(boardVersions.boardId, boardId), eq(boardVersions.id, versionId)));
+    return version;
+  }
+
+  async createBoardVersion(boardId: string, insertVersion: InsertBoardVersion): Promise<BoardVersion> {
+    const [version] = await this.db
+      .insert(boardVersions)
+      .values({ ...insertVersion, boardId })
+      .returning();
+    return version;
+  }
 }
 
-export const storage = new MemStorage();
+// Postgres when a database is provisioned, in-memory otherwise (local dev).
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DbStorage(process.env.DATABASE_URL)
+  : new MemStorage();
@@ -0,0 +1,191 @@
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+
+// `.collabboard.json`: a board's items in a stable, versioned envelope. When
+// the item shape changes, bump BOARD_FILE_VERSION and add a migration from
+// the previous version so older files keep loading.
+
+export const BOARD_FILE_FORMAT = "collabboard";
+export const BOARD_FILE_VERSION = 6;
+export const BOARD_FILE_EXTENSION = ".collabboard.json";
+
+const pointSchema = z.object({ x: z.number(), y: z.number() });
+
+const strokeSchema = z.object({
+  id: z.string(),
+  tool: z.enum(["pen", "eraser"]),
+  color: z.string(),
+  size: z.number(),
+  points: z.array(pointSchema),
+});
+
+const shapeSchema = z.object({
+  id: z.string(),
+  kind: z.enum(["rect", "ellipse"]),
+  x: z.number(),
+  y: z.number(),
+  w: z.number(),
+  h: z.number(),
+  stroke: z.string(),
+  fill: z.string(),
+  strokeWidth: z.number(),
+});
+
+const textSpanSchema = z.object({
+  text: z.string(),
+  bold: z.boolean().optional(),
+  italic: z.boolean().optional(),
+  underline: z.boolean().optional(),
+  strike: z.boolean().optional(),
+  code: z.boolean().optional(),
+  link: z.string().optional(),
+});
+
+const richParagraphSchema = z.object({
+  bullet: z.boolean().optional(),
+  spans: z.array(textSpanSchema),
+});
+
+const textSchema = z.object({
+  id: z.string(),
+  x: z.number(),
+  y: z.number(),
+  text: z.string(),
+  color: z.string(),
+  fontSize: z.number(),
+  width: z.number().optional(),
+  rich: z.array(richParagraphSchema).optional(),
+  align: z.enum(["left", "center", "right"]).optional(),
+  font: z.enum(["sans", "serif", "mono", "hand"]).optional(),
+  weight: z.number().optional(),
+  lineHeight: z.number().optional(),
+});
+
+const imageSchema = z.object({
+  id: z.string(),
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+  src: z.string(),
+});
+
+const connectorEndSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  bind: z.object({ id: z.string(), side: z.enum(["n", "e", "s", "w"]) }).optional(),
+});
+
+const connectorSchema = z.object({
+  id: z.string(),
+  start: connectorEndSchema,
+  end: connectorEndSchema,
+  routing: z.enum(["straight", "elbow", "curved"]),
+  startArrow: z.boolean(),
+  endArrow: z.boolean(),
+  color: z.string(),
+  strokeWidth: z.number(),
+});
+
+const stickySchema = z.object({
+  id: z.string(),
+  x: z.number(),
+  y: z.number(),
+  size: z.number(),
+  text: z.string(),
+  color: z.string(),
+});
+
+export const boardItemSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("stroke"), data: strokeSchema }),
+  z.object({ type: z.literal("shape"), data: shapeSchema }),
+  z.object({ type: z.literal("text"), data: textSchema }),
+  z.object({ type: z.literal("image"), data: imageSchema }),
+  z.object({ type: z.literal("connector"), data: connectorSchema }),
+  z.object({ type: z.literal("sticky"), data: stickySchema }),
+]);
+
+export const boardFileSchema = z.object({
+  format: z.literal(BOARD_FILE_FORMAT),
+  version: z.literal(BOARD_FILE_VERSION),
+  title: z.string().optional(),
+  exportedAt: z.string().optional(),
+  items: z.array(boardItemSchema),
+});
+
+export type BoardFileItem = z.infer<typeof boardItemSchema>;
+export type BoardFile = z.infer<typeof boardFileSchema>;
+
+// Each entry upgrades a file from its key's version to the next one.
+// Version 0 is board data from before the format existed: a bare item array,
+// or a board as `GET /api/boards/:id` returns it.
+const migrations: Record<number, (file: Record<string, unknown>) => Record<string, unknown>> = {
+  0: (file) => ({
+    format: BOARD_FILE_FORMAT,
+    version: 1,
+    title: typeof file.title === "string" ? file.title : undefined,
+    items: file.items,
+  }),
+  // Version 2 added connectors; version 1 files need no changes.
+  1: (file) => ({ ...file, version: 2 }),
+  // Version 3 added sticky notes.
+  2: (file) => ({ ...file, version: 3 }),
+  // Version 4 added an optional wrap width to text.
+  3: (file) => ({ ...file, version: 4 }),
+  // Version 5 added formatting to text; plain text stays valid as it is.
+  4: (file) => ({ ...file, version: 5 }),
+  // Version 6 added alignment, font, weight and line height to text.
+  5: (file) => ({ ...file, version: 6 }),
+};
+
+function readVersion(raw: unknown): { version: number; file: Record<string, unknown> } | null {
+  if (Array.isArray(raw)) return { version: 0, file: { items: raw } };
+  if (!raw || typeof raw !== "object") return null;
+  const file = raw as Record<string, unknown>;
+  if (file.format === BOARD_FILE_FORMAT && typeof file.version === "number") {
+    return { version: file.version, file };
+  }
+  if (file.format === undefined && Array.isArray(file.items)) return { version: 0, file };
+  return null;
+}
+
+export type BoardFileParseResult =
+  | { success: true; data: BoardFile }
+  | { success: false; error: string };
+
+// Validates parsed JSON as a board file, migrating older versions first.
+export function parseBoardFile(raw: unknown): BoardFileParseResult {
+  const read = readVersion(raw);
+  if (!read) {
+    return { success: false, error: "This isn't a CollabBoard file." };
+  }
+  let { version, file } = read;
+  if (!Number.isInteger(version) || version < 0) {
+    return { success: false, error: `Unknown board file version ${version}.` };
+  }
+  if (version > BOARD_FILE_VERSION) {
+    return {
+      success: false,
+      error: "This file was saved by a newer version of CollabBoard.",
+    };
+  }
+  while (version < BOARD_FILE_VERSION) {
+    file = migrations[version](file);
+    version += 1;
+  }
+  const parsed = boardFileSchema.safeParse(file);
+  if (!parsed.success) {
+    return { success: false, error: fromZodError(parsed.error).message };
+  }
+  return { success: true, data: parsed.data };
+}
+
+export function createBoardFile(items: BoardFileItem[], title?: string): BoardFile {
+  return {
+    format: BOARD_FILE_FORMAT,
+    version: BOARD_FILE_VERSION,
+    title,
+    exportedAt: new Date().toISOString(),
+    items,
+  };
+}
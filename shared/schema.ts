@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar } from "drizzle-orm/pg-core";
+import { index, jsonb, pgTable, text, timestamp, varchar } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -16,3 +16,71 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+
+// Board ids come from the client (`/b/:boardId`), so there is no default.
+// `items` holds the serialized BoardItem[] exactly as the whiteboard has it.
+export const boards = pgTable("boards", {
+  id: varchar("id").primaryKey(),
+  title: text("title").notNull().default("Untitled board"),
+  items: jsonb("items").$type<unknown[]>().notNull().default(sql`'[]'::jsonb`),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertBoardSchema = createInsertSchema(boards, {
+  items: z.array(z.unknown()),
+}).pick({
+  title: true,
+  items: true,
+});
+
+export type InsertBoard = z.infer<typeof insertBoardSchema>;
+export type Board = typeof boards.$inferSelect;
+
+// Autosave sends only what changed since the client's last successful save:
+// changed or new items, deleted ids, and the full id order when z-order moved.
+const savedItemSchema = z
+  .object({ type: z.string(), data: z.object({ id: z.string() }).passthrough() })
+  .passthrough();
+
+export const boardPatchSchema = z.object({
+  upsert: z.array(savedItemSchema).default([]),
+  remove: z.array(z.string()).default([]),
+  order: z.array(z.string()).optional(),
+});
+
+export type BoardPatch = z.infer<typeof boardPatchSchema>;
+
+// Snapshots of a board's items. Named versions are saved by a person;
+// automatic ones (name null) are taken by the server as the board is saved.
+export const boardVersions = pgTable(
+  "board_versions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    boardId: varchar("board_id")
+      .notNull()
+      .references(() => boards.id, { onDelete: "cascade" }),
+    name: text("name"),
+    author: text("author").notNull(),
+    items: jsonb("items").$type<unknown[]>().notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (t) => [index("board_versions_board_id_created_at_idx").on(t.boardId, t.createdAt)],
+);
+
+export const insertBoardVersionSchema = createInsertSchema(boardVersions, {
+  items: z.array(z.unknown()),
+}).pick({
+  name: true,
+  author: true,
+  items: true,
+});
+
+export const createBoardVersionSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  author: z.string().trim().min(1).max(80),
+});
+
+export type InsertBoardVersion = z.infer<typeof insertBoardVersionSchema>;
+export type BoardVersion = typeof boardVersions.$inferSelect;
+export type BoardVersionSummary = Omit<BoardVersion, "items">;
@@ -0,0 +1,43 @@
+// Messages exchanged while peers discover each other and negotiate WebRTC.
+// They travel over the signaling WebSocket (or BroadcastChannel as a
+// same-browser fallback); board data itself only ever goes over the data
+// channel.
+
+export const SIGNALING_PATH = "/ws";
+
+// Board ids double as signaling room names and appear in shareable URLs.
+export const BOARD_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export type PeerId = string;
+
+export interface PresenceMessage {
+  type: "presence";
+  id: PeerId;
+  name: string;
+  color: string;
+}
+
+export interface OfferMessage {
+  type: "offer";
+  from: PeerId;
+  to: PeerId;
+  offer: RTCSessionDescriptionInit;
+  name: string;
+  color: string;
+}
+
+export interface AnswerMessage {
+  type: "answer";
+  from: PeerId;
+  to: PeerId;
+  answer: RTCSessionDescriptionInit;
+}
+
+export interface IceCandidateMessage {
+  type: "ice";
+  from: PeerId;
+  to: PeerId;
+  candidate: RTCIceCandidateInit;
+}
+
+export type SignalMessage = PresenceMessage | OfferMessage | AnswerMessage | IceCandidateMessage;